@@ -1,29 +1,111 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { Mic, Power, Globe, Activity, Terminal, User, Settings, Laptop, ArrowRight, Video, AlertTriangle, ExternalLink, Sparkles, MicOff, Waves, AppWindow, Layers, Volume2 } from 'lucide-react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Mic, Power, Globe, Activity, Terminal, User, Settings, Laptop, ArrowRight, Video, AlertTriangle, ExternalLink, Sparkles, MicOff, Waves, AppWindow, Layers, Volume2, BookOpen, Database, Trash2, History, RotateCcw, Speaker, Languages } from 'lucide-react';
 import clsx from 'clsx';
 import { useLiveApi } from './hooks/use-live-api';
+import { useSpeechSynthesis } from './hooks/use-speech-synthesis';
+import { useTtsEngine } from './hooks/use-tts-engine';
+import { useMonitorMix, DEFAULT_MONITOR_MIX } from './hooks/use-monitor-mix';
+import { useSessionRecorder } from './hooks/use-session-recorder';
 import { useMediaDevices } from './hooks/use-media-devices';
 import { useWebSpeech } from './hooks/use-web-speech';
 import { useMediaStream } from './hooks/use-media-stream';
 import { useFlashTranscriber } from './hooks/use-flash-transcriber';
+import { useRealtimeTranscriber } from './hooks/use-realtime-transcriber';
 import { useAudioLevel } from './hooks/use-audio-level';
-import { translateText } from './utils/translator';
+import { useTranslationContext } from './hooks/use-translation-context';
+import { useGlossary } from './hooks/use-glossary';
+import { useVoiceDefaults } from './hooks/use-voice-defaults';
+import { useTranslationCache } from './hooks/use-translation-cache';
+import { usePersistSession } from './hooks/use-session-history';
+import { useFileTranscriber } from './hooks/use-file-transcriber';
+import { useRequestSchedulerStats } from './hooks/use-request-scheduler';
+import { DEFAULT_VAD_CONFIG } from './hooks/use-vad-segmenter';
+import { translateTextStream, listTranslationProviders, getDefaultProviderId, getTranslationProvider } from './utils/translator';
 import { LANGUAGES, getLanguageCode } from './utils/languages';
+import { findLastSentenceBoundary } from './utils/text-segmentation';
+import { validateTranslation } from './utils/glossary';
+import { createIdSequence, createSessionId, groupTranscript, resumeIdSequence, tallyDetectedLanguages } from './utils/transcript';
+import { detectLanguage, isReliableDetection, prepareLanguageDetection } from './utils/language-detect';
+import { findInterruptedSession, loadSession } from './utils/session-store';
+import { downloadTranscript, ExportFormat, ExportScope } from './utils/transcript-export';
+import { isAudioWorkletSupported } from './utils/worklets';
+import { transcriptionScheduler, translationScheduler } from './utils/request-scheduler';
 import AudioVisualizer from './components/AudioVisualizer';
 import ChatMessage from './components/ChatMessage';
 import DeviceSelector from './components/DeviceSelector';
-import { ConnectionState, TranscriptItem, AudioDevice } from './types';
+import OutputDeviceSelector from './components/OutputDeviceSelector';
+import GlossaryPanel from './components/GlossaryPanel';
+import TargetLanguagesPanel from './components/TargetLanguagesPanel';
+import TtsChannel from './components/TtsChannel';
+import ExportMenu from './components/ExportMenu';
+import RecordingMenu from './components/RecordingMenu';
+import SessionHistoryPanel from './components/SessionHistoryPanel';
+import AudioFileImport from './components/AudioFileImport';
+import PlaybackControls from './components/PlaybackControls';
+import CaptureSettingsPanel from './components/CaptureSettingsPanel';
+import MonitorMixPanel from './components/MonitorMixPanel';
+import { LagPolicy } from './utils/playback-queue';
+import { ConnectionState, TtsSender, TranscriptItem, AudioDevice, TargetLanguageConfig, SessionMetadata, SegmentationMode, TranscriptionMode, VadConfig, MonitorMixConfig } from './types';
+import { DEFAULT_STYLE } from './utils/voices';
+import { loadOutputDeviceId, saveOutputDeviceId } from './utils/output-device';
+import { downloadRecording, getSupportedRecordingFormats } from './utils/session-recorder';
+
+interface TranscriptOptions {
+  // Imported audio carries its own timeline instead of wall-clock time
+  timestamp?: Date;
+  speak?: boolean;
+}
 
 function App() {
   const [sourceLanguage, setSourceLanguage] = useState('Auto Detect');
-  const [targetLanguage, setTargetLanguage] = useState('Spanish');
+  const { getDefaultVoice, setDefaultVoice } = useVoiceDefaults();
+  const [targets, setTargets] = useState<TargetLanguageConfig[]>(() => [
+    { language: 'Spanish', voice: getDefaultVoice('Spanish'), style: DEFAULT_STYLE, ttsEnabled: true, outputDeviceId: loadOutputDeviceId() }
+  ]);
+  const [activeTab, setActiveTab] = useState<string>('all');
+  const [translationProviderId, setTranslationProviderId] = useState(getDefaultProviderId);
+  const [contextWindowSize, setContextWindowSize] = useState(6);
+  const [showGlossary, setShowGlossary] = useState(false);
   const [messages, setMessages] = useState<TranscriptItem[]>([]);
+  const [session, setSession] = useState<SessionMetadata | null>(null);
+  // Set when the loaded session never ended (crash / reload) and can be continued
+  const [resumableSessionId, setResumableSessionId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Between INITIALIZE and TERMINATE, even if the Live TTS session is down
+  const [pipelineActive, setPipelineActive] = useState(false);
   const [selectedDevice, setSelectedDevice] = useState<AudioDevice | undefined>(undefined);
+  const [transcriptionMode, setTranscriptionMode] = useState<TranscriptionMode>('chunked');
+  const [segmentation, setSegmentation] = useState<SegmentationMode>(() => isAudioWorkletSupported() ? 'vad' : 'fixed');
+  const [vadConfig, setVadConfig] = useState<VadConfig>(DEFAULT_VAD_CONFIG);
+  const [maxLagSeconds, setMaxLagSeconds] = useState(10);
+  const [lagPolicy, setLagPolicy] = useState<LagPolicy>('drop-oldest');
+  const [monitorMix, setMonitorMix] = useState<MonitorMixConfig>(DEFAULT_MONITOR_MIX);
   const [zoomLink, setZoomLink] = useState('https://us05web.zoom.us/j/9503133821?pwd=Q6fXaVzbmdskUNdUC2AjOZtzjCroIT.1');
   const scrollRef = useRef<HTMLDivElement>(null);
+  // Session-unique, monotonic transcript ids; replaced on every new session
+  const nextIdRef = useRef(createIdSequence(createSessionId()));
+
+  // The first target is the primary language, spoken by the main TTS session
+  const primaryTarget = targets[0];
+  const targetLanguage = primaryTarget.language;
+  const targetLanguageNames = useMemo(() => targets.map(t => t.language), [targets]);
+
+  const setPrimaryOutputDevice = (outputDeviceId?: string) => {
+    setTargets(prev => prev.map((t, i) => i === 0 ? { ...t, outputDeviceId } : t));
+  };
+
+  // Remember the speech output (typically a virtual cable) for the next session
+  useEffect(() => {
+    saveOutputDeviceId(primaryTarget.outputDeviceId);
+  }, [primaryTarget.outputDeviceId]);
+
+  const setTargetLanguage = (language: string) => {
+    setTargets(prev => prev.filter((t, i) => i === 0 || t.language !== language)
+      .map((t, i) => i === 0 ? { ...t, language, voice: getDefaultVoice(language) } : t));
+  };
   
-  const { devices, fetchDevices, permissionGranted } = useMediaDevices();
+  const { devices, outputDevices, fetchDevices, permissionGranted } = useMediaDevices();
   
   // Set default device
   useEffect(() => {
@@ -33,6 +115,11 @@ function App() {
     }
   }, [devices, selectedDevice]);
 
+  // Only tab capture can be monitored here, ducked under the interpretation: a
+  // captured window keeps playing at full level, so the mix would double its audio
+  const supportsMonitorMix = selectedDevice?.type === 'tab';
+  const monitorMixEnabled = supportsMonitorMix && monitorMix.enabled;
+
   // --- 1. SOURCE: Media Stream Acquisition ---
   // Gets the stream from Mic, System, Zoom, or Tab
   const { 
@@ -41,11 +128,53 @@ function App() {
     stopStream, 
     isStreaming, 
     error: streamError 
-  } = useMediaStream(selectedDevice);
+  } = useMediaStream(selectedDevice, { suppressLocalAudioPlayback: monitorMixEnabled });
 
   // Monitor Input Volume for Visualization
   const { level: inputLevel } = useAudioLevel(stream);
 
+  // Rolling source/translation window fed back to the translator
+  const { 
+    getContext: getTranslationContext, 
+    addEntry: addTranslationContext, 
+    resetContext: resetTranslationContext 
+  } = useTranslationContext(contextWindowSize);
+
+  // Terminology rules per language pair
+  const {
+    addEntry: addGlossaryEntry,
+    updateEntry: updateGlossaryEntry,
+    removeEntry: removeGlossaryEntry,
+    importEntries: importGlossaryEntries,
+    getEntriesForPair: getGlossaryForPair
+  } = useGlossary();
+  const activeGlossaryCount = useMemo(
+    () => new Set(targetLanguageNames.flatMap(lang => getGlossaryForPair(sourceLanguage, lang).map(e => e.id))).size,
+    [getGlossaryForPair, sourceLanguage, targetLanguageNames]
+  );
+
+  const { stats: cacheStats, clearCache } = useTranslationCache();
+
+  // Every session is mirrored to IndexedDB as it happens
+  usePersistSession(session, messages);
+
+  const restoreSession = useCallback((restored: SessionMetadata, items: TranscriptItem[]) => {
+    setSession(restored);
+    setMessages(items);
+    if (restored.transcriptionMode) setTranscriptionMode(restored.transcriptionMode);
+    nextIdRef.current = resumeIdSequence(restored.id, items);
+    setResumableSessionId(restored.endedAt ? null : restored.id);
+  }, []);
+
+  // Recover a session interrupted by a crash or reload
+  useEffect(() => {
+    findInterruptedSession()
+      .then(recovered => {
+        if (recovered) restoreSession(recovered.session, recovered.messages);
+      })
+      .catch(e => console.warn("Session recovery unavailable", e));
+  }, [restoreSession]);
+
   // --- 2. DESTINATION: TTS Engine (Gemini Live) ---
   // Reads aloud the translated text
   const { 
@@ -53,53 +182,208 @@ function App() {
     disconnect: disconnectLive, 
     sendText: sendTextToLive,
     connectionState, 
+    reconnectAttempt: ttsReconnectAttempt,
+    playback,
+    pausePlayback,
+    resumePlayback,
+    skipUtterance,
+    flushPlayback,
+    getOutputStream,
     volume: outputVolume,
     error: liveError
   } = useLiveApi({ 
     targetLanguage,
+    voiceName: primaryTarget.voice,
+    style: primaryTarget.style,
+    customStyle: primaryTarget.customStyle,
+    outputDeviceId: primaryTarget.outputDeviceId,
+    outputGain: monitorMixEnabled ? monitorMix.interpretationVolume : 1,
+    maxLagSeconds,
+    lagPolicy,
   });
 
+  // Browser speech takes over the primary language whenever Live is unavailable
+  const {
+    isSupported: isLocalTtsSupported,
+    sendText: sendTextToLocal,
+    stop: stopLocalTts,
+    speakingItemId: localSpeakingId,
+    voiceName: localVoiceName
+  } = useSpeechSynthesis({ language: targetLanguage });
+
+  const { engine: ttsEngine, sendText: speakPrimary } = useTtsEngine({
+    active: pipelineActive,
+    live: { sendText: sendTextToLive, stop: flushPlayback, connectionState },
+    local: { sendText: sendTextToLocal, stop: stopLocalTts, isSupported: isLocalTtsSupported },
+  });
+
+  const isInterpreting = ttsEngine === 'local' ? localSpeakingId !== undefined : playback.speaking;
+  useMonitorMix({
+    stream: supportsMonitorMix ? stream : null,
+    config: monitorMix,
+    isInterpreting,
+  });
+
+  // Session recording taps the capture stream and the Live output graph
+  const getCaptureStream = useCallback(() => stream, [stream]);
+  const {
+    recordings,
+    activeTrack: recordingTrack,
+    elapsed: recordingElapsed,
+    error: recordingError,
+    start: startRecording,
+    stop: stopRecording,
+    remove: removeRecording
+  } = useSessionRecorder({
+    sessionId: session?.id,
+    messages,
+    getOriginalStream: getCaptureStream,
+    getInterpretationStream: getOutputStream,
+  });
+
+  // --- 2B. Additional TTS sessions, one per secondary language with TTS enabled ---
+  const ttsSendersRef = useRef<Record<string, TtsSender>>({});
+  const [channelStates, setChannelStates] = useState<Record<string, ConnectionState>>({});
+
+  const registerTtsChannel = useCallback((language: string, sendText: TtsSender | null) => {
+    if (sendText) {
+      ttsSendersRef.current[language] = sendText;
+    } else {
+      delete ttsSendersRef.current[language];
+    }
+  }, []);
+
+  const handleChannelState = useCallback((language: string, state: ConnectionState) => {
+    setChannelStates(prev => prev[language] === state ? prev : { ...prev, [language]: state });
+  }, []);
+
   // Combine Input and Output volume for a unified visualizer experience
   // If the user is speaking/system is playing, show that. 
   // If the AI is talking, show that.
   const visualizerVolume = Math.max(inputLevel, outputVolume);
 
   // --- 3A. TRANSCRIPTION (Microphone) ---
-  // Uses Web Speech API for low latency local mic transcription
-  const webSpeechLang = getLanguageCode(sourceLanguage);
+  // Uses Web Speech API for low latency local mic transcription.
+  // Recognition needs some language up front; Auto Detect assumes the browser's own.
+  const webSpeechLang = sourceLanguage === 'Auto Detect' ? navigator.language : getLanguageCode(sourceLanguage);
   
+  // Translates one utterance into a single target language, streaming into its own item
+  const translateInto = useCallback(async (
+    text: string,
+    sourceId: string,
+    sourceLanguage: string,
+    target: TargetLanguageConfig,
+    isPrimary: boolean,
+    { timestamp = new Date(), speak: shouldSpeak = true }: TranscriptOptions = {}
+  ) => {
+    const translationId = nextIdRef.current();
+    setMessages(old => [...old, {
+      id: translationId,
+      speaker: 'eburon',
+      text: '',
+      timestamp,
+      isFinal: false,
+      sourceId,
+      sourceLanguage,
+      targetLanguage: target.language
+    }]);
+
+    const updateTranslation = (patch: Partial<TranscriptItem>) => {
+      setMessages(old => old.map(m => m.id === translationId ? { ...m, ...patch } : m));
+    };
+
+    // TTS (Live) - only whole sentences are spoken
+    const speak = async (segment: string) => {
+      if (!shouldSpeak || !segment.trim()) return;
+      if (isPrimary) {
+        // Goes to Live, or to browser speech while Live is down
+        await speakPrimary(segment.trim(), translationId);
+      } else if (target.ttsEnabled) {
+        await ttsSendersRef.current[target.language]?.(segment.trim(), translationId);
+      }
+    };
+
+    const glossary = getGlossaryForPair(sourceLanguage, target.language);
+
+    // Translate (Flash, streaming)
+    let translated = '';
+    let spokenUpTo = 0;
+    // A failed translation comes back as the source text; it must not become context
+    let failed = false;
+    try {
+        const stream = translateTextStream(text, sourceLanguage, target.language, {
+          providerId: translationProviderId,
+          context: getTranslationContext(target.language),
+          glossary,
+          onFallback: () => { failed = true; }
+        });
+        for await (const chunk of stream) {
+          translated += chunk;
+          updateTranslation({ text: translated });
+
+          const boundary = findLastSentenceBoundary(translated);
+          if (boundary > spokenUpTo) {
+            await speak(translated.slice(spokenUpTo, boundary));
+            spokenUpTo = boundary;
+          }
+        }
+    } catch (e) {
+        console.error("Pipeline Error", e);
+        failed = true;
+    } finally {
+        updateTranslation({
+          text: translated.trim(),
+          isFinal: true,
+          glossaryViolations: validateTranslation(text, translated, glossary)
+        });
+        if (!failed && translated.trim()) addTranslationContext(target.language, { source: text, translation: translated.trim() });
+    }
+
+    // Flush whatever trailed the last sentence boundary
+    try {
+        await speak(translated.slice(spokenUpTo));
+    } catch (e) {
+        console.error("Pipeline Error", e);
+    }
+  }, [translationProviderId, speakPrimary, getTranslationContext, addTranslationContext, getGlossaryForPair]);
+
   // Handlers for Unified Processing
-  const processTranscript = useCallback(async (text: string) => {
+  const processTranscript = useCallback(async (text: string, options: TranscriptOptions = {}) => {
     if (!text.trim()) return;
 
     // Log Original
+    const sourceId = nextIdRef.current();
     setMessages(old => [...old, {
-      id: Date.now().toString(),
+      id: sourceId,
       speaker: 'user',
       text: text,
-      timestamp: new Date()
+      timestamp: options.timestamp || new Date(),
+      isFinal: true,
+      sourceLanguage
     }]);
 
-    // Translate (Flash)
-    try {
-        const translated = await translateText(text, sourceLanguage, targetLanguage);
-        
-        // Log Translation
-        setMessages(old => [...old, {
-          id: Date.now() + '_trans',
-          speaker: 'eburon',
-          text: translated, // Show translation in chat
-          timestamp: new Date()
-        }]);
-
-        // TTS (Live)
-        if (translated && connectionState === ConnectionState.CONNECTED) {
-            await sendTextToLive(translated);
-        }
-    } catch (e) {
-        console.error("Pipeline Error", e);
+    // Targets the speaker is already talking in need neither translation nor a voice.
+    // Only a reliable detection may skip one; an estimate just labels the line.
+    const detected = await detectLanguage(text);
+    const reliable = isReliableDetection(detected);
+    const skippedTargets = reliable ? targets.filter(t => t.language === detected.language).map(t => t.language) : [];
+    if (detected) {
+      setMessages(old => old.map(m => m.id === sourceId ? {
+        ...m,
+        detectedLanguage: detected.language,
+        ...(skippedTargets.length > 0 && { skippedTargets })
+      } : m));
     }
-  }, [sourceLanguage, targetLanguage, connectionState, sendTextToLive]);
+
+    // With Auto Detect the translator gets the detected language when there is one
+    const translateFrom = sourceLanguage === 'Auto Detect' && reliable ? detected.language : sourceLanguage;
+
+    // Fan out to every target language in parallel
+    await Promise.all(targets.map((target, index) => skippedTargets.includes(target.language)
+      ? Promise.resolve()
+      : translateInto(text, sourceId, translateFrom, target, index === 0, options)
+    ));
+  }, [targets, sourceLanguage, translateInto]);
 
   // Web Speech Hook
   const { 
@@ -119,19 +403,65 @@ function App() {
   });
 
   // --- 3B. TRANSCRIPTION (System/Zoom/Tab/Window) ---
-  // Uses Gemini Flash to transcribe the MediaStream since WebSpeech can't
-  const { isTranscribing: isFlashTranscribing } = useFlashTranscriber({
-    stream: selectedDevice?.type !== 'microphone' ? stream : null, // Only active for non-mic
+  // Uses Gemini to transcribe the MediaStream since WebSpeech can't:
+  // chunked generateContent calls, or a realtime Live session
+  const captureStream = selectedDevice?.type !== 'microphone' ? stream : null; // Only active for non-mic
+  const {
+    isTranscribing: isChunkTranscribing,
+    isSpeaking: isVadSpeaking,
+    droppedChunks
+  } = useFlashTranscriber({
+    stream: transcriptionMode === 'chunked' ? captureStream : null,
+    onTranscript: processTranscript,
+    language: sourceLanguage === 'Auto Detect' ? undefined : sourceLanguage,
+    segmentation,
+    vadConfig
+  });
+
+  const {
+    isTranscribing: isRealtimeTranscribing,
+    interimText: realtimeInterim,
+    error: realtimeError,
+    restart: restartRealtime
+  } = useRealtimeTranscriber({
+    stream: transcriptionMode === 'realtime' ? captureStream : null,
     onTranscript: processTranscript,
     language: sourceLanguage === 'Auto Detect' ? undefined : sourceLanguage
   });
 
+  const isFlashTranscribing = isChunkTranscribing || isRealtimeTranscribing;
+  const transcriptionStats = useRequestSchedulerStats(transcriptionScheduler);
+  const translationStats = useRequestSchedulerStats(translationScheduler);
+
+  // --- 3C. TRANSCRIPTION (Imported Recording) ---
+  // Same transcribe -> translate path, on the file's own timeline and without TTS
+  const fileStartRef = useRef(0);
+  const handleFileSegment = useCallback((text: string, offset: number) => processTranscript(text, {
+    timestamp: new Date(fileStartRef.current + offset * 1000),
+    speak: false
+  }), [processTranscript]);
+
+  const {
+    transcribeFile,
+    cancel: cancelFileImport,
+    progress: fileImportProgress,
+    isProcessing: isImportingFile,
+    error: fileImportError
+  } = useFileTranscriber({
+    language: sourceLanguage === 'Auto Detect' ? undefined : sourceLanguage,
+    onSegment: handleFileSegment
+  });
+
   const isScreenCapture = selectedDevice && ['system', 'zoom', 'tab', 'window'].includes(selectedDevice.type);
 
   // --- CONNECTION MANAGEMENT ---
   const connect = useCallback(async () => {
+    // Still inside the click, which the detector's model download requires
+    prepareLanguageDetection();
+
     // 1. Start Audio Stream (Mic or System)
     await startStream();
+    setPipelineActive(true);
 
     // 2. Connect TTS Engine
     connectLive();
@@ -144,16 +474,39 @@ function App() {
   }, [startStream, connectLive, startWebSpeech, resetWebSpeech, selectedDevice]);
 
   const disconnect = useCallback(() => {
+    setPipelineActive(false);
+    stopRecording();
     stopStream();
     disconnectLive();
     stopWebSpeech();
-  }, [stopStream, disconnectLive, stopWebSpeech]);
+  }, [stopRecording, stopStream, disconnectLive, stopWebSpeech]);
 
   const handleToggleConnection = () => {
-    if (connectionState === ConnectionState.CONNECTED || isStreaming) {
+    if (connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING || ttsEngine === 'local' || isStreaming) {
       disconnect();
+      setSession(prev => prev && { ...prev, endedAt: new Date() });
+    } else if (session && session.id === resumableSessionId) {
+      // Continue the interrupted session instead of wiping it
+      setResumableSessionId(null);
+      resetTranslationContext();
+      connect();
     } else {
+      const sessionId = createSessionId();
+      setSession({
+        id: sessionId,
+        startedAt: new Date(),
+        deviceType: selectedDevice?.type,
+        deviceLabel: selectedDevice?.label,
+        sourceLanguage,
+        targetLanguages: targetLanguageNames,
+        transcriptionMode: selectedDevice?.type !== 'microphone' ? transcriptionMode : undefined,
+        zoomLink: selectedDevice?.type === 'zoom' ? zoomLink : undefined
+      });
       setMessages([]);
+      nextIdRef.current = createIdSequence(sessionId);
+      resetTranslationContext();
+      transcriptionScheduler.resetStats();
+      translationScheduler.resetStats();
       connect();
     }
   };
@@ -175,28 +528,126 @@ function App() {
   }, [permissionGranted, fetchDevices]);
 
   // Status Message
+  const prevConnectionStateRef = useRef(connectionState);
   useEffect(() => {
-    if (connectionState === ConnectionState.CONNECTED) {
-      setMessages(prev => [...prev, {
-        id: Date.now().toString(),
-        speaker: 'eburon',
-        text: `Pipeline Active: ${selectedDevice?.label} -> Transcription -> Translation -> TTS`,
-        timestamp: new Date()
-      }]);
-    }
+    const previous = prevConnectionStateRef.current;
+    prevConnectionStateRef.current = connectionState;
+    if (connectionState !== ConnectionState.CONNECTED || previous === ConnectionState.CONNECTED) return;
+
+    setMessages(prev => [...prev, {
+      id: nextIdRef.current(),
+      speaker: 'system',
+      text: previous === ConnectionState.RECONNECTING
+        ? 'TTS reconnected'
+        : `Pipeline Active: ${selectedDevice?.label} -> Transcription -> Translation -> TTS`,
+      timestamp: new Date()
+    }]);
   }, [connectionState, selectedDevice]);
 
+  // speechSynthesis cannot be given an output device or pass through Web Audio,
+  // so browser speech misses the chosen sink, the interpretation fader and the recorder
+  const primaryOutputLabel = outputDevices.find(d => d.deviceId === primaryTarget.outputDeviceId)?.label;
+  const localTtsLimits = [
+    `plays on the default speaker${primaryOutputLabel ? `, not ${primaryOutputLabel}` : ''}`,
+    'ignores the interpretation volume',
+    'is not recorded',
+    ...(targets.slice(1).some(t => t.ttsEnabled) ? [`covers ${primaryTarget.language} only`] : []),
+  ].join(', ');
+
+  const prevTtsEngineRef = useRef(ttsEngine);
+  useEffect(() => {
+    const previous = prevTtsEngineRef.current;
+    prevTtsEngineRef.current = ttsEngine;
+    if (ttsEngine !== 'local' || previous === 'local') return;
+
+    setMessages(prev => [...prev, {
+      id: nextIdRef.current(),
+      speaker: 'system',
+      text: `Live TTS unavailable, speaking with browser voice${localVoiceName ? ` (${localVoiceName})` : ''}. It ${localTtsLimits}.`,
+      timestamp: new Date()
+    }]);
+  }, [ttsEngine, localVoiceName, localTtsLimits]);
+
+
+  // Imported recordings become a session of their own
+  const handleImportFile = async (file: File) => {
+    prepareLanguageDetection();
+    const sessionId = createSessionId();
+    const startedAt = new Date();
+    fileStartRef.current = startedAt.getTime();
+    setSession({
+      id: sessionId,
+      startedAt,
+      deviceLabel: file.name,
+      sourceLanguage,
+      targetLanguages: targetLanguageNames
+    });
+    setMessages([]);
+    nextIdRef.current = createIdSequence(sessionId);
+    resetTranslationContext();
+    setResumableSessionId(null);
+
+    const duration = await transcribeFile(file);
+    const endedAt = duration !== null ? new Date(startedAt.getTime() + duration * 1000) : new Date();
+    setSession(prev => prev && prev.id === sessionId ? { ...prev, endedAt } : prev);
+  };
+
+  const handleOpenSession = async (id: string) => {
+    try {
+      const loaded = await loadSession(id);
+      if (loaded) restoreSession(loaded.session, loaded.messages);
+    } catch (e) {
+      console.error("Failed to open session", e);
+    }
+  };
+
+  // Close out the recovered session so the next Initialize starts fresh
+  const handleDiscardRecovery = () => {
+    const lastItem = messages[messages.length - 1];
+    setSession(prev => prev && { ...prev, endedAt: lastItem?.timestamp || new Date() });
+    setResumableSessionId(null);
+  };
+
+  const handleExport = (format: ExportFormat, scope: ExportScope) => {
+    if (messages.length === 0) return;
+    const exportSession: SessionMetadata = session || {
+      id: createSessionId(),
+      startedAt: messages[0].timestamp,
+      sourceLanguage,
+      targetLanguages: targetLanguageNames
+    };
+    // Subtitle exports follow the selected language tab
+    downloadTranscript(format, exportSession, messages, {
+      scope,
+      targetLanguage: currentTab === 'all' ? undefined : currentTab
+    });
+  };
 
   const handleOpenZoom = () => {
     window.open(zoomLink, '_blank');
   };
 
-  const isConnected = connectionState === ConnectionState.CONNECTED;
+  // A reconnecting TTS socket keeps the pipeline running, and so does the local TTS fallback
+  const isConnected = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING || ttsEngine === 'local';
+  const isReconnecting = connectionState === ConnectionState.RECONNECTING;
   const isConnecting = connectionState === ConnectionState.CONNECTING;
 
+  // One transcript tab per target language; source lines and status lines show in all of them
+  const currentTab = activeTab === 'all' || targetLanguageNames.includes(activeTab) ? activeTab : 'all';
+  const visibleMessages = currentTab === 'all'
+    ? messages
+    : messages.filter(m => !m.targetLanguage || m.targetLanguage === currentTab);
+
+  // What this session's speakers actually spoke, per utterance
+  const languageTally = useMemo(() => tallyDetectedLanguages(messages), [messages]);
+
   // Visual State
   const isActive = isConnected && (isWebSpeechListening || isFlashTranscribing);
-  const displayInterim = selectedDevice?.type === 'microphone' ? webSpeechInterim : (isFlashTranscribing ? 'Analysing audio stream...' : '');
+  const displayInterim = selectedDevice?.type === 'microphone'
+    ? webSpeechInterim
+    : isRealtimeTranscribing
+      ? realtimeInterim
+      : (isChunkTranscribing ? 'Analysing audio stream...' : '');
 
   const getSourceIcon = () => {
     if (selectedDevice?.type === 'zoom') return <Video size={10} />;
@@ -264,14 +715,55 @@ function App() {
                    <option key={`target-${lang}`} value={lang}>{lang}</option>
                  ))}
                </select>
+               {targets.length > 1 && (
+                 <span className="text-[10px] text-eburon-accent font-mono shrink-0" title={targetLanguageNames.slice(1).join(', ')}>
+                   +{targets.length - 1}
+                 </span>
+               )}
              </div>
              
+             {/* Translation Engine */}
+             <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-eburon-800 border border-eburon-700 max-w-[180px]">
+               <span className="text-[10px] text-gray-500 font-mono uppercase">Engine</span>
+               <select
+                 value={translationProviderId}
+                 onChange={(e) => setTranslationProviderId(e.target.value)}
+                 className="bg-transparent text-sm text-gray-200 focus:outline-none w-full cursor-pointer"
+               >
+                 {listTranslationProviders().map(provider => (
+                   <option key={provider.id} value={provider.id} disabled={!provider.isAvailable()}>
+                     {provider.label}
+                   </option>
+                 ))}
+               </select>
+             </div>
+
+             {/* Context Window */}
+             <div className="flex items-center gap-2 px-3 py-1.5 rounded bg-eburon-800 border border-eburon-700" title="Previous utterances sent to the translator as context">
+               <span className="text-[10px] text-gray-500 font-mono uppercase">Ctx</span>
+               <select
+                 value={contextWindowSize}
+                 onChange={(e) => setContextWindowSize(Number(e.target.value))}
+                 className="bg-transparent text-sm text-gray-200 focus:outline-none cursor-pointer"
+               >
+                 {[0, 2, 4, 6, 8, 12].map(size => (
+                   <option key={`ctx-${size}`} value={size}>{size === 0 ? 'Off' : size}</option>
+                 ))}
+               </select>
+             </div>
+
              <div className={clsx(
                "flex items-center gap-2 px-3 py-1.5 rounded border text-xs font-mono uppercase ml-2",
-               isConnected ? "border-eburon-success/30 bg-eburon-success/10 text-eburon-success" : "border-gray-700 bg-gray-800 text-gray-500"
+               isReconnecting
+                 ? "border-amber-500/30 bg-amber-500/10 text-amber-400"
+                 : isConnected ? "border-eburon-success/30 bg-eburon-success/10 text-eburon-success" : "border-gray-700 bg-gray-800 text-gray-500"
              )}>
-               <div className={clsx("w-2 h-2 rounded-full", isConnected ? "bg-eburon-success animate-pulse" : "bg-gray-500")} />
+               <div className={clsx(
+                 "w-2 h-2 rounded-full",
+                 isReconnecting ? "bg-amber-400 animate-pulse" : isConnected ? "bg-eburon-success animate-pulse" : "bg-gray-500"
+               )} />
                {connectionState}
+               {isReconnecting && <span className="normal-case">#{ttsReconnectAttempt}</span>}
              </div>
           </div>
         </div>
@@ -295,6 +787,9 @@ function App() {
                   <div className="absolute bottom-0 right-0 flex items-center gap-1 bg-black/50 px-1.5 py-0.5 rounded text-[8px] text-gray-400 font-mono pointer-events-none">
                     <Volume2 size={8} className={inputLevel > 0.01 ? "text-green-400" : "text-gray-600"} />
                     <span>IN: {(inputLevel * 100).toFixed(0)}%</span>
+                    {transcriptionMode === 'chunked' && segmentation === 'vad' && (
+                      <span className={isVadSpeaking ? "text-eburon-accent" : "text-gray-600"}>VAD</span>
+                    )}
                   </div>
                 )}
              </div>
@@ -302,14 +797,51 @@ function App() {
              {/* Device Selector */}
              {!isConnected && (
                <div className="flex flex-col gap-3 items-center w-full max-w-md">
-                 <div className="w-full">
-                   <DeviceSelector 
-                     devices={devices}
-                     selectedDevice={selectedDevice}
-                     onSelect={setSelectedDevice}
-                   />
+                 <div className="w-full flex flex-col sm:flex-row gap-3">
+                   <div className="flex-1 min-w-0">
+                     <DeviceSelector 
+                       devices={devices}
+                       selectedDevice={selectedDevice}
+                       onSelect={setSelectedDevice}
+                     />
+                   </div>
+                   <div className="flex-1 min-w-0">
+                     <OutputDeviceSelector
+                       devices={outputDevices}
+                       selectedDeviceId={primaryTarget.outputDeviceId}
+                       onSelect={setPrimaryOutputDevice}
+                     />
+                   </div>
                  </div>
 
+                 <TargetLanguagesPanel
+                   targets={targets}
+                   outputDevices={outputDevices}
+                   onChange={setTargets}
+                   getDefaultVoice={getDefaultVoice}
+                   onSetDefaultVoice={setDefaultVoice}
+                 />
+
+                 {selectedDevice && selectedDevice.type !== 'microphone' && (
+                   <CaptureSettingsPanel
+                     transcriptionMode={transcriptionMode}
+                     segmentation={segmentation}
+                     vadConfig={vadConfig}
+                     workletSupported={isAudioWorkletSupported()}
+                     onTranscriptionModeChange={setTranscriptionMode}
+                     onSegmentationChange={setSegmentation}
+                     onVadConfigChange={setVadConfig}
+                   />
+                 )}
+
+                 <AudioFileImport
+                   progress={fileImportProgress}
+                   error={fileImportError}
+                   disabled={isStreaming}
+                   onFile={handleImportFile}
+                   onCancel={cancelFileImport}
+                 />
+
                  {/* Zoom Meeting Specific Control */}
                  {selectedDevice?.type === 'zoom' && (
                    <div className="w-full bg-blue-900/10 border border-blue-500/20 rounded-lg p-3 flex flex-col gap-2">
@@ -339,6 +871,17 @@ function App() {
                </div>
              )}
 
+             {/* Faders stay reachable while the pipeline runs */}
+             {supportsMonitorMix && (
+               <div className="w-full max-w-md">
+                 <MonitorMixPanel
+                   config={monitorMix}
+                   isDucking={monitorMixEnabled && isInterpreting}
+                   onChange={setMonitorMix}
+                 />
+               </div>
+             )}
+
              <div className="text-xs font-mono text-gray-500 mt-2 uppercase tracking-widest flex flex-col items-center gap-2">
                {isConnected ? (
                   <div className="flex flex-col items-center gap-1">
@@ -361,6 +904,15 @@ function App() {
                           Processing {selectedDevice?.label || 'Source'} Stream...
                        </span>
                     )}
+                    {isChunkTranscribing && (
+                       <span
+                         className={clsx("text-[9px] normal-case", droppedChunks > 0 ? "text-amber-400" : "text-gray-600")}
+                         title="Chunk transcription requests: in flight / retried / dropped this session"
+                       >
+                          {transcriptionStats.inFlight} in flight · {transcriptionStats.retried} retried · {droppedChunks} dropped
+                          {translationStats.dropped > 0 && ` · ${translationStats.dropped} translations failed`}
+                       </span>
+                    )}
                   </div>
                ) : 'System Standby'}
 
@@ -371,12 +923,39 @@ function App() {
                     <span>{selectedDevice?.type === 'microphone' ? 'WebSpeech' : 'Stream'} Input</span>
                     <span className="text-gray-600">→</span>
                     <Globe size={10} className="text-eburon-accent" />
-                    <span>Flash Translate</span>
+                    <span>{getTranslationProvider(translationProviderId).label}</span>
                     <span className="text-gray-600">→</span>
-                    <Sparkles size={10} className="text-eburon-success" />
-                    <span>Live TTS</span>
+                    {ttsEngine === 'local' ? (
+                      <>
+                        <Speaker size={10} className="text-amber-400" />
+                        <span className="text-amber-400" title={`Live TTS is unavailable; the browser's own voice is speaking. It ${localTtsLimits}.`}>
+                          Local TTS{localVoiceName && ` · ${localVoiceName}`}
+                        </span>
+                      </>
+                    ) : (
+                      <>
+                        <Sparkles size={10} className="text-eburon-success" />
+                        <span>Live TTS</span>
+                      </>
+                    )}
                   </div>
                )}
+
+               {isConnected && ttsEngine === 'live' && (
+                  <PlaybackControls
+                    playback={playback}
+                    maxLagSeconds={maxLagSeconds}
+                    lagPolicy={lagPolicy}
+                    onPause={pausePlayback}
+                    onResume={resumePlayback}
+                    onSkip={skipUtterance}
+                    onFlush={flushPlayback}
+                    onPolicyChange={(seconds, policy) => {
+                      setMaxLagSeconds(seconds);
+                      setLagPolicy(policy);
+                    }}
+                  />
+               )}
              </div>
           </div>
         </div>
@@ -396,29 +975,174 @@ function App() {
         )}
 
         {/* Live Error */}
-        {(liveError || streamError) && (
+        {(liveError || streamError || realtimeError) && (
           <div className="bg-red-900/20 border border-red-500/30 rounded-lg p-3 flex items-start gap-3">
             <AlertTriangle className="text-red-500 shrink-0 mt-0.5" size={16} />
             <div className="text-xs text-red-200/80">
               <p className="font-bold mb-1">ERROR:</p>
-              <p>{liveError || streamError}</p>
+              <p>{liveError || streamError || realtimeError}</p>
             </div>
+            {!liveError && !streamError && realtimeError && captureStream?.active && (
+              <button
+                onClick={restartRealtime}
+                className="ml-auto flex items-center gap-1 text-[10px] font-mono text-red-200 border border-red-500/40 px-2 py-1 rounded hover:bg-red-500/20 transition-colors"
+              >
+                <RotateCcw size={10} />
+                RESTART
+              </button>
+            )}
           </div>
         )}
 
+        {/* Interrupted Session Recovery */}
+        {resumableSessionId && session && !isConnected && (
+          <div className="bg-eburon-accent/5 border border-eburon-accent/30 rounded-lg p-3 flex items-center gap-3">
+            <RotateCcw className="text-eburon-accent shrink-0" size={16} />
+            <div className="flex-1 text-xs text-gray-300">
+              <p className="font-bold mb-0.5">INTERRUPTED SESSION RECOVERED</p>
+              <p className="text-gray-400">
+                {session.title || session.startedAt.toLocaleString()} · {messages.length} items. Initialize to continue it.
+              </p>
+            </div>
+            <button
+              onClick={handleDiscardRecovery}
+              className="text-[10px] font-mono uppercase text-gray-400 hover:text-gray-200 border border-gray-700 rounded px-2 py-1 transition-colors"
+            >
+              Start Fresh
+            </button>
+          </div>
+        )}
+
+        {/* Session History */}
+        {showHistory && (
+          <SessionHistoryPanel
+            activeSessionId={session?.id}
+            isLive={isConnected || isStreaming}
+            onOpen={handleOpenSession}
+            onRenamed={(id, title) => setSession(prev => prev && prev.id === id ? { ...prev, title: title || undefined } : prev)}
+            onDeleted={(id) => {
+              if (session?.id !== id) return;
+              setSession(null);
+              setMessages([]);
+              setResumableSessionId(null);
+            }}
+          />
+        )}
+
+        {/* Glossary Editor */}
+        {showGlossary && (
+          <GlossaryPanel
+            sourceLanguage={sourceLanguage}
+            targetLanguages={targetLanguageNames}
+            getEntries={getGlossaryForPair}
+            onAdd={addGlossaryEntry}
+            onUpdate={updateGlossaryEntry}
+            onRemove={removeGlossaryEntry}
+            onImport={importGlossaryEntries}
+          />
+        )}
+
         {/* Chat / Transcript Area */}
         <div className="flex-1 bg-eburon-900 border border-eburon-700 rounded-xl overflow-hidden flex flex-col relative min-h-[400px]">
           <div className="absolute top-0 left-0 right-0 h-8 bg-eburon-800 border-b border-eburon-700 flex items-center px-4 gap-2 justify-between">
             <div className="flex items-center gap-2">
               <Terminal size={14} className="text-gray-500" />
               <span className="text-xs text-gray-400 font-mono">LIVE_TRANSCRIPT_LOG</span>
+              {targets.length > 1 && (
+                <div className="flex items-center gap-1 ml-2">
+                  {['all', ...targetLanguageNames].map((tab, index) => {
+                    const ttsState = index <= 1 ? (index === 1 ? connectionState : undefined) : channelStates[tab];
+                    return (
+                      <button
+                        key={`tab-${tab}`}
+                        onClick={() => setActiveTab(tab)}
+                        className={clsx(
+                          "flex items-center gap-1 text-[10px] font-mono uppercase px-1.5 rounded border transition-colors",
+                          currentTab === tab ? "text-eburon-accent border-eburon-accent/40 bg-eburon-accent/10" : "text-gray-500 border-transparent hover:text-gray-300"
+                        )}
+                      >
+                        {ttsState && (
+                          <span className={clsx(
+                            "w-1.5 h-1.5 rounded-full",
+                            ttsState === ConnectionState.CONNECTED
+                              ? "bg-eburon-success"
+                              : ttsState === ConnectionState.RECONNECTING ? "bg-amber-400 animate-pulse" : "bg-gray-600"
+                          )} />
+                        )}
+                        {tab === 'all' ? 'All' : tab}
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
             </div>
-            {isScreenCapture && (
-              <div className="flex items-center gap-1 text-[10px] text-eburon-accent font-mono border border-eburon-accent/20 px-1.5 rounded bg-eburon-accent/5">
-                {getSourceIcon()}
-                {getSourceLabel()}
+            <div className="flex items-center gap-2">
+              <ExportMenu disabled={messages.length === 0} onExport={handleExport} />
+              <RecordingMenu
+                recordings={recordings}
+                activeTrack={recordingTrack}
+                elapsed={recordingElapsed}
+                formats={getSupportedRecordingFormats()}
+                canRecord={!!session && isConnected}
+                error={recordingError}
+                onStart={startRecording}
+                onStop={stopRecording}
+                onDownload={downloadRecording}
+                onDelete={removeRecording}
+              />
+              <button
+                onClick={() => setShowHistory(v => !v)}
+                className={clsx(
+                  "flex items-center gap-1 text-[10px] font-mono border px-1.5 rounded transition-colors",
+                  showHistory ? "text-eburon-accent border-eburon-accent/40 bg-eburon-accent/10" : "text-gray-400 border-gray-700 hover:text-gray-200"
+                )}
+              >
+                <History size={10} />
+                HISTORY
+              </button>
+              {languageTally.length > 0 && (
+                <div
+                  className="flex items-center gap-1 text-[10px] font-mono text-gray-400 border border-gray-700 px-1.5 rounded"
+                  title={`Detected languages this session: ${languageTally.map(t => `${t.language} ${t.count}`).join(', ')}`}
+                >
+                  <Languages size={10} />
+                  <span>
+                    {languageTally.slice(0, 3).map(t => `${getLanguageCode(t.language).split('-')[0].toUpperCase()} ${t.count}`).join(' · ')}
+                    {languageTally.length > 3 && ` +${languageTally.length - 3}`}
+                  </span>
+                </div>
+              )}
+              <div
+                className="flex items-center gap-1 text-[10px] font-mono text-gray-400 border border-gray-700 px-1.5 rounded"
+                title={`Translation cache: ${cacheStats.memoryEntries} in memory, ${cacheStats.persistedEntries} stored`}
+              >
+                <Database size={10} />
+                <span>CACHE {cacheStats.hits}/{cacheStats.hits + cacheStats.misses}</span>
+                <button
+                  onClick={clearCache}
+                  className="text-gray-600 hover:text-red-400 transition-colors"
+                  title="Clear translation cache"
+                >
+                  <Trash2 size={10} />
+                </button>
               </div>
-            )}
+              <button
+                onClick={() => setShowGlossary(v => !v)}
+                className={clsx(
+                  "flex items-center gap-1 text-[10px] font-mono border px-1.5 rounded transition-colors",
+                  showGlossary ? "text-eburon-accent border-eburon-accent/40 bg-eburon-accent/10" : "text-gray-400 border-gray-700 hover:text-gray-200"
+                )}
+              >
+                <BookOpen size={10} />
+                GLOSSARY {activeGlossaryCount > 0 && `(${activeGlossaryCount})`}
+              </button>
+              {isScreenCapture && (
+                <div className="flex items-center gap-1 text-[10px] text-eburon-accent font-mono border border-eburon-accent/20 px-1.5 rounded bg-eburon-accent/5">
+                  {getSourceIcon()}
+                  {getSourceLabel()}
+                </div>
+              )}
+            </div>
           </div>
           
           <div ref={scrollRef} className="flex-1 overflow-y-auto p-4 pt-10 scroll-smooth">
@@ -429,8 +1153,8 @@ function App() {
               </div>
             )}
             
-            {messages.map(msg => (
-              <ChatMessage key={msg.id} message={msg} />
+            {groupTranscript(visibleMessages).map(row => (
+              <ChatMessage key={row.item.id} message={row.item} translations={row.translations} speakingId={ttsEngine === 'local' ? localSpeakingId : playback.activeItemId} />
             ))}
 
             {/* Live Transcript Bubble (Interim) */}
@@ -459,12 +1183,23 @@ function App() {
 
       </main>
 
+      {/* Dedicated TTS sessions for secondary languages */}
+      {targets.slice(1).filter(t => t.ttsEnabled).map(target => (
+        <TtsChannel
+          key={`tts-${target.language}`}
+          target={target}
+          active={isConnected}
+          onRegister={registerTtsChannel}
+          onStateChange={handleChannelState}
+        />
+      ))}
+
       {/* Footer Controls */}
       <footer className="border-t border-eburon-700 bg-eburon-900 p-6 z-20 relative">
         <div className="max-w-5xl mx-auto flex items-center justify-center">
           <button
             onClick={handleToggleConnection}
-            disabled={isConnecting}
+            disabled={isConnecting || isImportingFile}
             className={clsx(
               "group relative overflow-hidden rounded-full transition-all duration-300",
               "w-64 h-14", // Fixed size pill
@@ -0,0 +1,86 @@
+import React, { useState, useRef } from 'react';
+import { FileAudio, X, Activity } from 'lucide-react';
+import clsx from 'clsx';
+import { FileTranscriptionProgress } from '../hooks/use-file-transcriber';
+
+interface AudioFileImportProps {
+  progress: FileTranscriptionProgress | null;
+  error: string | null;
+  disabled?: boolean;
+  onFile: (file: File) => void;
+  onCancel: () => void;
+}
+
+const ACCEPT = '.wav,.mp3,.webm,.m4a,.ogg,.aac,audio/*';
+
+const AudioFileImport: React.FC<AudioFileImportProps> = ({ progress, error, disabled, onFile, onCancel }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (disabled || progress) return;
+    const file = Array.from(e.dataTransfer.files as ArrayLike<File>).find(f => f.type.startsWith('audio/') || /\.(wav|mp3|webm|m4a|ogg|aac)$/i.test(f.name));
+    if (file) onFile(file);
+  };
+
+  if (progress) {
+    const percent = progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+    return (
+      <div className="w-full bg-black/30 border border-eburon-accent/30 rounded-lg p-3 flex flex-col gap-2">
+        <div className="flex items-center gap-2">
+          <Activity size={12} className="text-eburon-accent animate-pulse shrink-0" />
+          <span className="flex-1 text-xs text-gray-300 truncate">{progress.fileName}</span>
+          <button
+            onClick={onCancel}
+            className="flex items-center gap-1 text-[10px] font-mono uppercase text-gray-400 hover:text-red-400 transition-colors"
+          >
+            <X size={10} /> Cancel
+          </button>
+        </div>
+        <div className="h-1 bg-gray-800 rounded overflow-hidden">
+          <div className="h-full bg-eburon-accent transition-all" style={{ width: `${percent}%` }} />
+        </div>
+        <span className="text-[10px] font-mono text-gray-500 uppercase">
+          {progress.stage === 'decoding'
+            ? 'Decoding audio...'
+            : `Segment ${progress.completed + 1} / ${progress.total} · ${Math.round(progress.duration)}s total`}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full flex flex-col gap-1">
+      <div
+        onDragOver={(e) => { e.preventDefault(); if (!disabled) setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => !disabled && inputRef.current?.click()}
+        className={clsx(
+          "w-full border border-dashed rounded-lg px-4 py-2.5 flex items-center justify-center gap-2 text-xs transition-colors",
+          disabled ? "opacity-40 cursor-not-allowed border-gray-800 text-gray-600" : "cursor-pointer",
+          !disabled && (isDragging ? "border-eburon-accent text-eburon-accent bg-eburon-accent/5" : "border-gray-700 text-gray-500 hover:border-gray-500 hover:text-gray-300")
+        )}
+      >
+        <FileAudio size={14} />
+        <span>Drop a recording (WAV, MP3, WebM, M4A) or click to import</span>
+        <input
+          ref={inputRef}
+          type="file"
+          accept={ACCEPT}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onFile(file);
+          }}
+        />
+      </div>
+      {error && <p className="text-[10px] font-mono text-red-400">{error}</p>}
+    </div>
+  );
+};
+
+export default AudioFileImport;
@@ -0,0 +1,126 @@
+import React from 'react';
+import clsx from 'clsx';
+import { SegmentationMode, TranscriptionMode, VadConfig } from '../types';
+
+interface CaptureSettingsPanelProps {
+  transcriptionMode: TranscriptionMode;
+  segmentation: SegmentationMode;
+  vadConfig: VadConfig;
+  // Realtime and VAD both capture through AudioWorklet
+  workletSupported: boolean;
+  onTranscriptionModeChange: (mode: TranscriptionMode) => void;
+  onSegmentationChange: (mode: SegmentationMode) => void;
+  onVadConfigChange: (config: VadConfig) => void;
+}
+
+interface ModeOption<T extends string> {
+  id: T;
+  label: string;
+  hint: string;
+  needsWorklet?: boolean;
+}
+
+const TRANSCRIPTION_MODES: ModeOption<TranscriptionMode>[] = [
+  { id: 'chunked', label: 'Chunked', hint: 'One transcription request per chunk or utterance' },
+  { id: 'realtime', label: 'Realtime', hint: 'One Live session with continuous interim text', needsWorklet: true },
+];
+
+const SEGMENTATION_MODES: ModeOption<SegmentationMode>[] = [
+  { id: 'fixed', label: 'Fixed 1s', hint: 'Lowest latency, one request per second' },
+  { id: 'vad', label: 'Voice Activity', hint: 'Whole utterances, silence is never sent', needsWorklet: true },
+];
+
+const VAD_FIELDS: { key: keyof VadConfig; label: string; min: number; max: number; step: number; unit: string }[] = [
+  { key: 'energyThresholdDb', label: 'Sensitivity', min: 3, max: 30, step: 1, unit: 'dB' },
+  { key: 'hangoverMs', label: 'Hangover', min: 100, max: 1500, step: 50, unit: 'ms' },
+  { key: 'minSegmentMs', label: 'Min length', min: 100, max: 2000, step: 50, unit: 'ms' },
+  { key: 'maxSegmentMs', label: 'Max length', min: 2000, max: 30000, step: 500, unit: 'ms' },
+];
+
+function ModeToggle<T extends string>({ label, options, value, workletSupported, onChange }: {
+  label: string;
+  options: ModeOption<T>[];
+  value: T;
+  workletSupported: boolean;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-2">
+      <span className="text-[10px] text-gray-500 font-mono uppercase tracking-wider">{label}</span>
+      <div className="flex bg-black/40 border border-gray-700 rounded overflow-hidden">
+        {options.map(option => (
+          <button
+            key={option.id}
+            title={option.hint}
+            disabled={option.needsWorklet && !workletSupported}
+            onClick={() => onChange(option.id)}
+            className={clsx(
+              "px-2 py-1 text-[10px] font-mono uppercase transition-colors disabled:opacity-40",
+              value === option.id ? "bg-eburon-accent/20 text-eburon-accent" : "text-gray-500 hover:text-gray-300"
+            )}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+const CaptureSettingsPanel: React.FC<CaptureSettingsPanelProps> = ({
+  transcriptionMode,
+  segmentation,
+  vadConfig,
+  workletSupported,
+  onTranscriptionModeChange,
+  onSegmentationChange,
+  onVadConfigChange
+}) => (
+  <div className="w-full bg-black/30 border border-gray-800 rounded-lg p-3 flex flex-col gap-2">
+    <ModeToggle
+      label="Transcription"
+      options={TRANSCRIPTION_MODES}
+      value={transcriptionMode}
+      workletSupported={workletSupported}
+      onChange={onTranscriptionModeChange}
+    />
+
+    {transcriptionMode === 'chunked' && (
+      <ModeToggle
+        label="Segmentation"
+        options={SEGMENTATION_MODES}
+        value={segmentation}
+        workletSupported={workletSupported}
+        onChange={onSegmentationChange}
+      />
+    )}
+
+    {transcriptionMode === 'chunked' && segmentation === 'vad' && (
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+        {VAD_FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col gap-0.5">
+            <span className="flex justify-between text-[10px] font-mono text-gray-500">
+              <span>{field.label}</span>
+              <span className="text-gray-300">{vadConfig[field.key]}{field.unit}</span>
+            </span>
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={vadConfig[field.key]}
+              onChange={(e) => onVadConfigChange({ ...vadConfig, [field.key]: Number(e.target.value) })}
+              className="accent-eburon-accent"
+            />
+          </label>
+        ))}
+      </div>
+    )}
+
+    {!workletSupported && (
+      <p className="text-[10px] font-mono text-gray-600">AudioWorklet unavailable; falling back to MediaRecorder chunks.</p>
+    )}
+  </div>
+);
+
+export default CaptureSettingsPanel;
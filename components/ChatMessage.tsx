@@ -1,41 +1,148 @@
 import React from 'react';
 import { TranscriptItem } from '../types';
 import clsx from 'clsx';
-import { Bot, User } from 'lucide-react';
+import { Bot, User, AlertTriangle, Info, Volume2 } from 'lucide-react';
 
 interface ChatMessageProps {
   message: TranscriptItem;
+  // Translations linked to this message via sourceId, rendered in the same row
+  translations?: TranscriptItem[];
+  // Translation currently being read aloud by TTS
+  speakingId?: string;
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message }) => {
-  const isEburon = message.speaker === 'eburon';
-  
-  return (
-    <div className={clsx(
-      "flex gap-4 p-4 rounded-lg mb-2 border",
-      isEburon 
-        ? "bg-eburon-800 border-eburon-700 text-eburon-accent" 
-        : "bg-eburon-900 border-eburon-800 text-gray-300"
-    )}>
+const TranslationText: React.FC<{ item: TranscriptItem }> = ({ item }) => (
+  <>
+    <p className="font-mono text-sm leading-relaxed">
+      {item.text}
+      {item.isFinal === false && <span className="animate-pulse">▍</span>}
+    </p>
+    {item.glossaryViolations && item.glossaryViolations.length > 0 && (
+      <div className="mt-2 flex flex-col gap-1">
+        {item.glossaryViolations.map(v => (
+          <div key={v.entryId} className="flex items-center gap-1.5 text-[10px] font-mono text-amber-400">
+            <AlertTriangle size={10} className="shrink-0" />
+            {v.rule === 'do-not-translate'
+              ? <span>GLOSSARY: "{v.term}" should have been kept as-is</span>
+              : <span>GLOSSARY: "{v.term}" should be rendered as "{v.expected}"</span>}
+          </div>
+        ))}
+      </div>
+    )}
+  </>
+);
+
+const TranslationHeader: React.FC<{ item: TranscriptItem; speaking?: boolean }> = ({ item, speaking }) => (
+  <div className="flex items-center gap-2 mb-1">
+    <span className="text-xs font-bold uppercase tracking-wider opacity-70">
+      {item.targetLanguage || 'Eburon System'}
+    </span>
+    {speaking && (
+      <span className="flex items-center gap-1 text-[10px] px-1 rounded bg-eburon-success/10 text-eburon-success">
+        <Volume2 size={10} className="animate-pulse" /> SPEAKING
+      </span>
+    )}
+    {item.isFinal === false && (
+      <span className="text-[10px] px-1 rounded animate-pulse bg-eburon-accent/10 text-eburon-accent">
+        STREAMING
+      </span>
+    )}
+  </div>
+);
+
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, translations = [], speakingId }) => {
+  // Status lines ("Pipeline Active", errors...) are compact and unpaired
+  if (message.speaker === 'system') {
+    return (
+      <div className="flex items-center gap-2 px-4 py-2 mb-2 text-[11px] font-mono text-gray-500">
+        <Info size={12} className="shrink-0" />
+        <span className="opacity-60">{message.timestamp.toLocaleTimeString()}</span>
+        <span>{message.text}</span>
+      </div>
+    );
+  }
+
+  // Orphan translation (its source is not in view)
+  if (message.speaker === 'eburon') {
+    return (
       <div className={clsx(
-        "w-8 h-8 rounded-full flex items-center justify-center shrink-0",
-        isEburon ? "bg-eburon-accent/20" : "bg-gray-700/20"
+        "flex gap-4 p-4 rounded-lg mb-2 border bg-eburon-800 text-eburon-accent",
+        message.id === speakingId ? "border-eburon-success/50" : "border-eburon-700"
       )}>
-        {isEburon ? <Bot size={18} /> : <User size={18} />}
+        <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0 bg-eburon-accent/20">
+          <Bot size={18} />
+        </div>
+        <div className="flex-1">
+          <TranslationHeader item={message} speaking={message.id === speakingId} />
+          <TranslationText item={message} />
+        </div>
       </div>
-      <div className="flex-1">
-        <div className="flex items-center gap-2 mb-1">
-          <span className="text-xs font-bold uppercase tracking-wider opacity-70">
-            {isEburon ? 'Eburon System' : 'Operator'}
-          </span>
-          <span className="text-xs opacity-40">
-            {message.timestamp.toLocaleTimeString()}
-          </span>
+    );
+  }
+
+  return (
+    <div className={clsx(
+      "grid gap-px rounded-lg mb-2 border border-eburon-800 overflow-hidden bg-eburon-800",
+      translations.length > 0 ? "md:grid-cols-2" : "grid-cols-1"
+    )}>
+      {/* Source */}
+      <div className="flex gap-4 p-4 bg-eburon-900 text-gray-300">
+        <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0 bg-gray-700/20">
+          <User size={18} />
+        </div>
+        <div className="flex-1">
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-xs font-bold uppercase tracking-wider opacity-70">Operator</span>
+            <span className="text-xs opacity-40">
+              {message.timestamp.toLocaleTimeString()}
+            </span>
+            {message.sourceLanguage && message.sourceLanguage !== 'Auto Detect' && (
+              <span className="text-[10px] px-1 rounded border border-gray-700 text-gray-500 font-mono uppercase">
+                {message.sourceLanguage}
+              </span>
+            )}
+            {message.detectedLanguage && message.detectedLanguage !== message.sourceLanguage && (
+              <span
+                className="text-[10px] px-1 rounded border border-eburon-accent/30 text-eburon-accent/80 font-mono uppercase"
+                title="Detected from the utterance"
+              >
+                {message.detectedLanguage}
+              </span>
+            )}
+          </div>
+          <p className="font-mono text-sm leading-relaxed">
+            {message.text}
+          </p>
+          {message.skippedTargets && message.skippedTargets.length > 0 && (
+            <p className="mt-2 text-[10px] font-mono text-gray-500">
+              Already in {message.skippedTargets.join(', ')}: not translated or spoken
+            </p>
+          )}
         </div>
-        <p className="font-mono text-sm leading-relaxed">
-          {message.text}
-        </p>
       </div>
+
+      {/* Translations */}
+      {translations.length > 0 && (
+        <div className="flex flex-col gap-px">
+          {translations.map(translation => (
+            <div
+              key={translation.id}
+              className={clsx(
+                "flex-1 flex gap-4 p-4 bg-eburon-800 text-eburon-accent",
+                translation.id === speakingId && "ring-1 ring-inset ring-eburon-success/50"
+              )}
+            >
+              <div className="w-8 h-8 rounded-full flex items-center justify-center shrink-0 bg-eburon-accent/20">
+                <Bot size={18} />
+              </div>
+              <div className="flex-1">
+                <TranslationHeader item={translation} speaking={translation.id === speakingId} />
+                <TranslationText item={translation} />
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,89 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Download, ChevronDown } from 'lucide-react';
+import clsx from 'clsx';
+import { ExportFormat, ExportScope } from '../utils/transcript-export';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  onExport: (format: ExportFormat, scope: ExportScope) => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string }[] = [
+  { id: 'srt', label: 'SubRip (.srt)' },
+  { id: 'vtt', label: 'WebVTT (.vtt)' },
+  { id: 'md', label: 'Minutes (.md)' },
+  { id: 'json', label: 'Session (.json)' },
+];
+
+const SCOPES: { id: ExportScope; label: string }[] = [
+  { id: 'both', label: 'Both' },
+  { id: 'source', label: 'Source' },
+  { id: 'translation', label: 'Translation' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ disabled, onExport }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<ExportScope>('both');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className="flex items-center gap-1 text-[10px] font-mono text-gray-400 border border-gray-700 px-1.5 rounded hover:text-gray-200 transition-colors disabled:opacity-40"
+      >
+        <Download size={10} />
+        EXPORT
+        <ChevronDown size={10} className={clsx("transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-44 bg-eburon-900 border border-eburon-700 rounded-lg shadow-xl overflow-hidden z-50">
+          <div className="flex border-b border-gray-800">
+            {SCOPES.map(s => (
+              <button
+                key={s.id}
+                onClick={() => setScope(s.id)}
+                className={clsx(
+                  "flex-1 py-1.5 text-[10px] font-mono uppercase transition-colors",
+                  scope === s.id ? "text-eburon-accent bg-eburon-800" : "text-gray-500 hover:text-gray-300"
+                )}
+              >
+                {s.label}
+              </button>
+            ))}
+          </div>
+          {FORMATS.map(format => (
+            <button
+              key={format.id}
+              onClick={() => {
+                onExport(format.id, scope);
+                setIsOpen(false);
+              }}
+              className="w-full px-3 py-2 text-left text-xs text-gray-300 hover:bg-eburon-800 transition-colors border-b border-gray-800 last:border-0"
+            >
+              {format.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,182 @@
+import React, { useState, useRef } from 'react';
+import { GlossaryEntry } from '../types';
+import { BookOpen, Plus, Trash2, Upload, Lock } from 'lucide-react';
+import { ANY_LANGUAGE, parseGlossaryFile } from '../utils/glossary';
+
+interface GlossaryPanelProps {
+  sourceLanguage: string;
+  targetLanguages: string[];
+  getEntries: (sourceLanguage: string, targetLanguage: string) => GlossaryEntry[];
+  onAdd: (entry: Omit<GlossaryEntry, 'id'>) => void;
+  onUpdate: (id: string, patch: Partial<GlossaryEntry>) => void;
+  onRemove: (id: string) => void;
+  onImport: (entries: GlossaryEntry[]) => void;
+}
+
+const GlossaryPanel: React.FC<GlossaryPanelProps> = ({
+  sourceLanguage,
+  targetLanguages,
+  getEntries,
+  onAdd,
+  onUpdate,
+  onRemove,
+  onImport
+}) => {
+  const [source, setSource] = useState('');
+  const [target, setTarget] = useState('');
+  const [doNotTranslate, setDoNotTranslate] = useState(false);
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const [selectedTarget, setSelectedTarget] = useState(targetLanguages[0]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Fall back to the primary language if the selected one was removed
+  const targetLanguage = targetLanguages.includes(selectedTarget) ? selectedTarget : targetLanguages[0];
+  const entries = getEntries(sourceLanguage, targetLanguage);
+
+  const handleAdd = () => {
+    if (!source.trim() || (!doNotTranslate && !target.trim())) return;
+    onAdd({
+      source: source.trim(),
+      target: doNotTranslate ? source.trim() : target.trim(),
+      sourceLanguage: sourceLanguage === 'Auto Detect' ? ANY_LANGUAGE : sourceLanguage,
+      targetLanguage: doNotTranslate ? ANY_LANGUAGE : targetLanguage,
+      doNotTranslate
+    });
+    setSource('');
+    setTarget('');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      const imported = parseGlossaryFile(file.name, content, sourceLanguage, targetLanguage);
+      onImport(imported);
+      setImportStatus(`Imported ${imported.length} entries from ${file.name}`);
+    } catch (err: any) {
+      console.error("Glossary import failed", err);
+      setImportStatus(err.message || "Import failed");
+    }
+  };
+
+  return (
+    <div className="bg-eburon-800 border border-eburon-700 rounded-xl p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <BookOpen size={14} className="text-eburon-accent" />
+          <span className="text-xs font-mono uppercase tracking-wider text-gray-300">Glossary</span>
+          <span className="text-[10px] font-mono text-gray-500">{sourceLanguage} →</span>
+          {targetLanguages.length > 1 ? (
+            <select
+              value={targetLanguage}
+              onChange={(e) => setSelectedTarget(e.target.value)}
+              className="bg-transparent text-[10px] font-mono text-gray-300 focus:outline-none cursor-pointer"
+            >
+              {targetLanguages.map(lang => (
+                <option key={`glossary-${lang}`} value={lang}>{lang}</option>
+              ))}
+            </select>
+          ) : (
+            <span className="text-[10px] font-mono text-gray-500">{targetLanguage}</span>
+          )}
+          <span className="text-[10px] font-mono text-gray-500">· {entries.length} active</span>
+        </div>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-[10px] font-mono uppercase text-gray-400 hover:text-eburon-accent border border-gray-700 rounded px-2 py-1 transition-colors"
+        >
+          <Upload size={10} /> Import CSV / TBX
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.tsv,.txt,.tbx,.xml"
+          onChange={handleFile}
+          className="hidden"
+        />
+      </div>
+
+      {importStatus && (
+        <p className="text-[10px] font-mono text-gray-500">{importStatus}</p>
+      )}
+
+      {/* New Entry */}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={source}
+          onChange={(e) => setSource(e.target.value)}
+          placeholder="Source term"
+          className="flex-1 min-w-[120px] bg-black/40 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-eburon-accent/50 font-mono"
+        />
+        <input
+          type="text"
+          value={doNotTranslate ? source : target}
+          onChange={(e) => setTarget(e.target.value)}
+          disabled={doNotTranslate}
+          placeholder={`${targetLanguage} term`}
+          className="flex-1 min-w-[120px] bg-black/40 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-eburon-accent/50 font-mono disabled:opacity-50"
+        />
+        <label className="flex items-center gap-1 text-[10px] font-mono uppercase text-gray-400 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={doNotTranslate}
+            onChange={(e) => setDoNotTranslate(e.target.checked)}
+          />
+          Keep as-is
+        </label>
+        <button
+          onClick={handleAdd}
+          className="flex items-center gap-1 bg-eburon-accent/10 border border-eburon-accent/40 hover:bg-eburon-accent/20 text-eburon-accent text-xs px-2 py-1.5 rounded transition-colors"
+        >
+          <Plus size={12} /> Add
+        </button>
+      </div>
+
+      {/* Entries */}
+      <div className="max-h-48 overflow-y-auto flex flex-col divide-y divide-gray-800">
+        {entries.length === 0 && (
+          <p className="text-[10px] font-mono text-gray-600 py-2">No glossary entries for this language pair.</p>
+        )}
+        {entries.map(entry => (
+          <div key={entry.id} className="flex items-center gap-2 py-1.5">
+            <input
+              type="text"
+              value={entry.source}
+              onChange={(e) => onUpdate(entry.id, entry.doNotTranslate
+                ? { source: e.target.value, target: e.target.value }
+                : { source: e.target.value })}
+              className="flex-1 bg-transparent text-xs text-gray-200 font-mono focus:outline-none"
+            />
+            {entry.doNotTranslate ? (
+              <span className="flex-1 flex items-center gap-1 text-[10px] font-mono uppercase text-amber-400/80">
+                <Lock size={10} /> Do not translate
+              </span>
+            ) : (
+              <input
+                type="text"
+                value={entry.target}
+                onChange={(e) => onUpdate(entry.id, { target: e.target.value })}
+                className="flex-1 bg-transparent text-xs text-eburon-accent font-mono focus:outline-none"
+              />
+            )}
+            <span className="text-[9px] font-mono text-gray-600 w-24 truncate text-right">
+              {entry.sourceLanguage === ANY_LANGUAGE ? 'Any' : entry.sourceLanguage} → {entry.targetLanguage === ANY_LANGUAGE ? 'Any' : entry.targetLanguage}
+            </span>
+            <button
+              onClick={() => onRemove(entry.id)}
+              className="text-gray-600 hover:text-red-400 transition-colors"
+            >
+              <Trash2 size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryPanel;
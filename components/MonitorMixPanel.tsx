@@ -0,0 +1,68 @@
+import React from 'react';
+import clsx from 'clsx';
+import { Headphones } from 'lucide-react';
+import { MonitorMixConfig } from '../types';
+
+interface MonitorMixPanelProps {
+  config: MonitorMixConfig;
+  isDucking: boolean;
+  onChange: (config: MonitorMixConfig) => void;
+}
+
+const MIX_FIELDS: { key: Exclude<keyof MonitorMixConfig, 'enabled'>; label: string; min: number; max: number; step: number; format: (value: number) => string }[] = [
+  { key: 'originalVolume', label: 'Original', min: 0, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  { key: 'interpretationVolume', label: 'Interpretation', min: 0, max: 1, step: 0.05, format: v => `${Math.round(v * 100)}%` },
+  { key: 'duckDb', label: 'Ducking', min: 0, max: 40, step: 1, format: v => `-${v}dB` },
+  { key: 'attackMs', label: 'Attack', min: 10, max: 500, step: 10, format: v => `${v}ms` },
+  { key: 'releaseMs', label: 'Release', min: 100, max: 3000, step: 50, format: v => `${v}ms` },
+];
+
+const MonitorMixPanel: React.FC<MonitorMixPanelProps> = ({ config, isDucking, onChange }) => (
+  <div className="w-full bg-black/30 border border-gray-800 rounded-lg p-3 flex flex-col gap-2">
+    <div className="flex items-center justify-between gap-2">
+      <span className="flex items-center gap-1.5 text-[10px] text-gray-500 font-mono uppercase tracking-wider">
+        <Headphones size={10} />
+        Monitor Mix
+        {config.enabled && (
+          <span className={clsx("normal-case", isDucking ? "text-amber-400" : "text-gray-600")}>
+            {isDucking ? '· ducking' : '· original'}
+          </span>
+        )}
+      </span>
+      <button
+        onClick={() => onChange({ ...config, enabled: !config.enabled })}
+        title="Play the captured audio here, lowered while the interpretation speaks"
+        className={clsx(
+          "px-2 py-1 text-[10px] font-mono uppercase rounded border transition-colors",
+          config.enabled ? "border-eburon-accent/40 bg-eburon-accent/20 text-eburon-accent" : "border-gray-700 text-gray-500 hover:text-gray-300"
+        )}
+      >
+        {config.enabled ? 'On' : 'Off'}
+      </button>
+    </div>
+
+    {config.enabled && (
+      <div className="grid grid-cols-2 gap-x-3 gap-y-1">
+        {MIX_FIELDS.map(field => (
+          <label key={field.key} className="flex flex-col gap-0.5">
+            <span className="flex justify-between text-[10px] font-mono text-gray-500">
+              <span>{field.label}</span>
+              <span className="text-gray-300">{field.format(config[field.key])}</span>
+            </span>
+            <input
+              type="range"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={config[field.key]}
+              onChange={(e) => onChange({ ...config, [field.key]: Number(e.target.value) })}
+              className="accent-eburon-accent"
+            />
+          </label>
+        ))}
+      </div>
+    )}
+  </div>
+);
+
+export default MonitorMixPanel;
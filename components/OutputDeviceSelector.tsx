@@ -0,0 +1,44 @@
+import React from 'react';
+import { Speaker } from 'lucide-react';
+import { AudioOutputDevice } from '../types';
+import { canSelectOutputDevice } from '../utils/output-device';
+
+interface OutputDeviceSelectorProps {
+  devices: AudioOutputDevice[];
+  selectedDeviceId?: string;
+  onSelect: (deviceId?: string) => void;
+}
+
+const OutputDeviceSelector: React.FC<OutputDeviceSelectorProps> = ({ devices, selectedDeviceId, onSelect }) => {
+  const isSupported = canSelectOutputDevice();
+  // A remembered device that is unplugged right now still shows, so it is not silently replaced
+  const isMissing = !!selectedDeviceId && !devices.some(d => d.deviceId === selectedDeviceId);
+
+  return (
+    <label
+      className="w-full flex items-center gap-3 bg-black/40 border border-gray-700 hover:border-gray-500 rounded-lg px-4 py-3 transition-colors"
+      title={isSupported ? 'Where the translated voice is played, e.g. a virtual audio cable feeding Zoom' : 'This browser always plays speech on the default output'}
+    >
+      <Speaker size={14} className="text-eburon-accent shrink-0" />
+      <div className="flex flex-col flex-1 min-w-0">
+        <span className="text-xs text-gray-500 font-mono uppercase tracking-wider">Speech Output</span>
+        <select
+          value={selectedDeviceId || ''}
+          onChange={(e) => onSelect(e.target.value || undefined)}
+          disabled={!isSupported}
+          className="bg-transparent text-sm font-medium text-gray-200 focus:outline-none cursor-pointer truncate disabled:opacity-40"
+        >
+          <option value="" className="bg-eburon-900">Default Output</option>
+          {isMissing && (
+            <option value={selectedDeviceId} className="bg-eburon-900">Unavailable device</option>
+          )}
+          {devices.map(device => (
+            <option key={`output-${device.deviceId}`} value={device.deviceId} className="bg-eburon-900">{device.label}</option>
+          ))}
+        </select>
+      </div>
+    </label>
+  );
+};
+
+export default OutputDeviceSelector;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Pause, Play, SkipForward, Square, Timer } from 'lucide-react';
+import clsx from 'clsx';
+import { LagPolicy, PlaybackState } from '../utils/playback-queue';
+
+interface PlaybackControlsProps {
+  playback: PlaybackState;
+  maxLagSeconds: number;
+  lagPolicy: LagPolicy;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onFlush: () => void;
+  onPolicyChange: (maxLagSeconds: number, lagPolicy: LagPolicy) => void;
+}
+
+const MAX_LAG_OPTIONS = [5, 10, 20, 30];
+
+const PlaybackControls: React.FC<PlaybackControlsProps> = ({
+  playback,
+  maxLagSeconds,
+  lagPolicy,
+  onPause,
+  onResume,
+  onSkip,
+  onFlush,
+  onPolicyChange
+}) => {
+  const isBehind = playback.lag > maxLagSeconds;
+  const buttonClass = "p-1 rounded border border-gray-700 text-gray-400 hover:text-eburon-accent hover:border-eburon-accent/40 transition-colors disabled:opacity-40";
+
+  return (
+    <div className="flex flex-wrap items-center justify-center gap-2 text-[10px] font-mono text-gray-400">
+      <button
+        onClick={playback.paused ? onResume : onPause}
+        title={playback.paused ? 'Resume speech' : 'Pause speech'}
+        className={buttonClass}
+      >
+        {playback.paused ? <Play size={12} /> : <Pause size={12} />}
+      </button>
+      <button onClick={onSkip} disabled={playback.queued === 0} title="Skip current sentence" className={buttonClass}>
+        <SkipForward size={12} />
+      </button>
+      <button onClick={onFlush} disabled={playback.queued === 0} title="Stop speaking and drop everything queued" className={buttonClass}>
+        <Square size={12} />
+      </button>
+
+      <span
+        className={clsx("flex items-center gap-1 px-1.5 py-0.5 rounded border", isBehind ? "border-amber-500/40 text-amber-400" : "border-gray-800")}
+        title="How far spoken output trails the transcript"
+      >
+        <Timer size={10} />
+        LAG {playback.lag.toFixed(1)}s
+        <span className="text-gray-600">· {playback.queued} queued</span>
+        {playback.playbackRate > 1 && <span className="text-eburon-accent">· {playback.playbackRate.toFixed(2)}x</span>}
+      </span>
+
+      <select
+        value={maxLagSeconds}
+        onChange={(e) => onPolicyChange(Number(e.target.value), lagPolicy)}
+        title="Maximum lag before the policy kicks in"
+        className="bg-black/40 border border-gray-700 rounded px-1 py-0.5 text-gray-300 focus:outline-none cursor-pointer"
+      >
+        {MAX_LAG_OPTIONS.map(seconds => (
+          <option key={`lag-${seconds}`} value={seconds}>max {seconds}s</option>
+        ))}
+      </select>
+      <select
+        value={lagPolicy}
+        onChange={(e) => onPolicyChange(maxLagSeconds, e.target.value as LagPolicy)}
+        title="What to do when speech falls behind"
+        className="bg-black/40 border border-gray-700 rounded px-1 py-0.5 text-gray-300 focus:outline-none cursor-pointer"
+      >
+        <option value="drop-oldest">Drop oldest</option>
+        <option value="speed-up">Speed up</option>
+      </select>
+    </div>
+  );
+};
+
+export default PlaybackControls;
@@ -0,0 +1,144 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { Circle, Square, ChevronDown, Download, X } from 'lucide-react';
+import clsx from 'clsx';
+import { RecordingFormat, RecordingTrack, SessionRecording } from '../types';
+
+interface RecordingMenuProps {
+  recordings: SessionRecording[];
+  activeTrack: RecordingTrack | null;
+  elapsed: number;
+  formats: RecordingFormat[];
+  // Recording needs a session to file the audio under
+  canRecord: boolean;
+  error: string | null;
+  onStart: (track: RecordingTrack, format: RecordingFormat) => void;
+  onStop: () => void;
+  onDownload: (recording: SessionRecording) => void;
+  onDelete: (id: string) => void;
+}
+
+const TRACKS: { id: RecordingTrack; label: string }[] = [
+  { id: 'mixed', label: 'Mixed' },
+  { id: 'original', label: 'Original' },
+  { id: 'interpretation', label: 'Interp.' },
+];
+
+const FORMAT_LABELS: Record<RecordingFormat, string> = {
+  webm: 'Opus (.webm)',
+  wav: 'WAV (.wav)',
+};
+
+const formatDuration = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${(whole % 60).toString().padStart(2, '0')}`;
+};
+
+const RecordingMenu: React.FC<RecordingMenuProps> = ({
+  recordings,
+  activeTrack,
+  elapsed,
+  formats,
+  canRecord,
+  error,
+  onStart,
+  onStop,
+  onDownload,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [track, setTrack] = useState<RecordingTrack>('mixed');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+    };
+  }, []);
+
+  const isRecording = activeTrack !== null;
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={!canRecord && recordings.length === 0}
+        className={clsx(
+          "flex items-center gap-1 text-[10px] font-mono border px-1.5 rounded transition-colors disabled:opacity-40",
+          isRecording ? "text-red-400 border-red-500/40 bg-red-500/10" : "text-gray-400 border-gray-700 hover:text-gray-200"
+        )}
+      >
+        <Circle size={8} className={clsx(isRecording && "fill-current animate-pulse")} />
+        {isRecording ? `REC ${formatDuration(elapsed)}` : 'REC'}
+        {recordings.length > 0 && <span className="text-gray-500">{recordings.length}</span>}
+        <ChevronDown size={10} className={clsx("transition-transform", isOpen && "rotate-180")} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute top-full right-0 mt-2 w-56 bg-eburon-900 border border-eburon-700 rounded-lg shadow-xl overflow-hidden z-50">
+          {isRecording ? (
+            <button
+              onClick={onStop}
+              className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs text-red-400 hover:bg-eburon-800 transition-colors border-b border-gray-800"
+            >
+              <Square size={10} className="fill-current" />
+              Stop {activeTrack} · {formatDuration(elapsed)}
+            </button>
+          ) : canRecord && (
+            <>
+              <div className="flex border-b border-gray-800">
+                {TRACKS.map(t => (
+                  <button
+                    key={t.id}
+                    onClick={() => setTrack(t.id)}
+                    className={clsx(
+                      "flex-1 py-1.5 text-[10px] font-mono uppercase transition-colors",
+                      track === t.id ? "text-eburon-accent bg-eburon-800" : "text-gray-500 hover:text-gray-300"
+                    )}
+                  >
+                    {t.label}
+                  </button>
+                ))}
+              </div>
+              {formats.map(format => (
+                <button
+                  key={format}
+                  onClick={() => onStart(track, format)}
+                  className="w-full flex items-center gap-2 px-3 py-2 text-left text-xs text-gray-300 hover:bg-eburon-800 transition-colors border-b border-gray-800"
+                >
+                  <Circle size={8} className="text-red-400 fill-current" />
+                  Record {FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </>
+          )}
+
+          {error && <p className="px-3 py-2 text-[10px] font-mono text-red-400 border-b border-gray-800">{error}</p>}
+
+          {recordings.map(recording => (
+            <div key={recording.id} className="flex items-center gap-2 px-3 py-2 text-xs text-gray-300 border-b border-gray-800 last:border-0">
+              <span className="flex-1 truncate font-mono text-[10px]">
+                {recording.startedAt.toLocaleTimeString()} · {recording.track} · {formatDuration(recording.duration)}
+              </span>
+              <button onClick={() => onDownload(recording)} title="Download" className="text-gray-500 hover:text-eburon-accent transition-colors">
+                <Download size={12} />
+              </button>
+              <button onClick={() => onDelete(recording.id)} title="Delete" className="text-gray-600 hover:text-red-400 transition-colors">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RecordingMenu;
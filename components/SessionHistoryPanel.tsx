@@ -0,0 +1,135 @@
+import React, { useState, useEffect } from 'react';
+import { History, Search, Trash2, FolderOpen, Pencil, Check } from 'lucide-react';
+import clsx from 'clsx';
+import { SessionMetadata } from '../types';
+import { useSessionHistory } from '../hooks/use-session-history';
+
+interface SessionHistoryPanelProps {
+  activeSessionId?: string;
+  // Opening and deleting are blocked while a pipeline is running
+  isLive: boolean;
+  onOpen: (id: string) => void;
+  onRenamed: (id: string, title: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+const formatDuration = (session: SessionMetadata) => {
+  if (!session.endedAt) return 'in progress';
+  const minutes = Math.round((session.endedAt.getTime() - session.startedAt.getTime()) / 60000);
+  return minutes < 1 ? '<1 min' : `${minutes} min`;
+};
+
+const SessionHistoryPanel: React.FC<SessionHistoryPanelProps> = ({ activeSessionId, isLive, onOpen, onRenamed, onDeleted }) => {
+  const { sessions, query, setQuery, isLoading, refresh, rename, remove } = useSessionHistory();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  // Pick up sessions started or reopened while the panel is visible
+  useEffect(() => {
+    refresh();
+  }, [activeSessionId, isLive, refresh]);
+
+  const startEditing = (session: SessionMetadata) => {
+    setEditingId(session.id);
+    setDraftTitle(session.title || '');
+  };
+
+  const commitTitle = async (id: string) => {
+    await rename(id, draftTitle);
+    onRenamed(id, draftTitle.trim());
+    setEditingId(null);
+  };
+
+  const handleDelete = async (session: SessionMetadata) => {
+    if (!window.confirm(`Delete session from ${session.startedAt.toLocaleString()}?`)) return;
+    await remove(session.id);
+    onDeleted(session.id);
+  };
+
+  return (
+    <div className="bg-eburon-800 border border-eburon-700 rounded-xl p-4 flex flex-col gap-3">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <History size={14} className="text-eburon-accent" />
+          <span className="text-xs font-mono uppercase tracking-wider text-gray-300">Session History</span>
+          <span className="text-[10px] font-mono text-gray-500">{sessions.length} saved</span>
+        </div>
+        <div className="flex items-center gap-2 bg-black/40 border border-gray-700 rounded px-2 py-1 flex-1 max-w-[240px]">
+          <Search size={12} className="text-gray-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search title, language, text..."
+            className="flex-1 bg-transparent text-xs text-gray-200 focus:outline-none font-mono"
+          />
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-y-auto flex flex-col divide-y divide-gray-800">
+        {!isLoading && sessions.length === 0 && (
+          <p className="text-[10px] font-mono text-gray-600 py-2">
+            {query ? 'No sessions match your search.' : 'No saved sessions yet.'}
+          </p>
+        )}
+        {sessions.map(session => {
+          const isActive = session.id === activeSessionId;
+          return (
+            <div key={session.id} className={clsx("flex items-center gap-3 py-2", isActive && "bg-eburon-accent/5")}>
+              <div className="flex-1 min-w-0">
+                {editingId === session.id ? (
+                  <div className="flex items-center gap-1">
+                    <input
+                      autoFocus
+                      type="text"
+                      value={draftTitle}
+                      onChange={(e) => setDraftTitle(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitTitle(session.id);
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="flex-1 bg-black/40 border border-gray-700 rounded px-2 py-0.5 text-xs text-gray-200 focus:outline-none font-mono"
+                    />
+                    <button onClick={() => commitTitle(session.id)} className="text-eburon-accent">
+                      <Check size={12} />
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs text-gray-200 truncate">
+                      {session.title || session.startedAt.toLocaleString()}
+                    </span>
+                    <button onClick={() => startEditing(session)} className="text-gray-600 hover:text-gray-300 transition-colors">
+                      <Pencil size={10} />
+                    </button>
+                  </div>
+                )}
+                <div className="text-[10px] font-mono text-gray-500 truncate">
+                  {session.sourceLanguage} → {session.targetLanguages.join(', ')}
+                  {' · '}{session.deviceLabel || session.deviceType || 'Unknown source'}
+                  {' · '}{formatDuration(session)}
+                </div>
+              </div>
+              <button
+                onClick={() => onOpen(session.id)}
+                disabled={isLive || isActive}
+                className="flex items-center gap-1 text-[10px] font-mono uppercase text-gray-400 hover:text-eburon-accent border border-gray-700 rounded px-2 py-1 transition-colors disabled:opacity-40"
+              >
+                <FolderOpen size={10} /> Open
+              </button>
+              <button
+                onClick={() => handleDelete(session)}
+                disabled={isLive && isActive}
+                className="text-gray-600 hover:text-red-400 transition-colors disabled:opacity-40"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistoryPanel;
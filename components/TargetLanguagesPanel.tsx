@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { AudioOutputDevice, SpeakingStyle, TargetLanguageConfig, VoiceName } from '../types';
+import { Plus, X, Volume2, VolumeX, Play, Loader2, Star } from 'lucide-react';
+import clsx from 'clsx';
+import { LANGUAGES } from '../utils/languages';
+import { VOICE_NAMES, DEFAULT_STYLE, SPEAKING_STYLES } from '../utils/voices';
+import { previewVoice } from '../utils/voice-preview';
+
+interface TargetLanguagesPanelProps {
+  targets: TargetLanguageConfig[];
+  outputDevices: AudioOutputDevice[];
+  onChange: (targets: TargetLanguageConfig[]) => void;
+  getDefaultVoice: (language: string) => VoiceName;
+  onSetDefaultVoice: (language: string, voice: VoiceName) => void;
+}
+
+const MAX_TARGETS = 5;
+
+const TargetLanguagesPanel: React.FC<TargetLanguagesPanelProps> = ({
+  targets,
+  outputDevices,
+  onChange,
+  getDefaultVoice,
+  onSetDefaultVoice
+}) => {
+  const [previewingIndex, setPreviewingIndex] = useState<number | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+
+  const preview = async (index: number) => {
+    const target = targets[index];
+    setPreviewingIndex(index);
+    setPreviewError(null);
+    try {
+      await previewVoice({
+        voice: target.voice,
+        style: target.style,
+        customStyle: target.customStyle,
+        outputDeviceId: target.outputDeviceId,
+      });
+    } catch (e: any) {
+      console.error("Voice preview failed", e);
+      setPreviewError(e.message || 'Voice preview failed');
+    } finally {
+      setPreviewingIndex(null);
+    }
+  };
+
+  const update = (index: number, patch: Partial<TargetLanguageConfig>) => {
+    onChange(targets.map((t, i) => i === index ? { ...t, ...patch } : t));
+  };
+
+  const remove = (index: number) => {
+    onChange(targets.filter((_, i) => i !== index));
+  };
+
+  const add = () => {
+    const next = LANGUAGES.find(lang => !targets.some(t => t.language === lang));
+    if (!next) return;
+    onChange([...targets, { language: next, voice: getDefaultVoice(next), style: DEFAULT_STYLE, ttsEnabled: false }]);
+  };
+
+  return (
+    <div className="w-full bg-black/30 border border-gray-800 rounded-lg p-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] text-gray-500 font-mono uppercase tracking-wider">Target Languages</span>
+        {targets.length < MAX_TARGETS && (
+          <button
+            onClick={add}
+            className="flex items-center gap-1 text-[10px] font-mono uppercase text-gray-400 hover:text-eburon-accent transition-colors"
+          >
+            <Plus size={10} /> Add
+          </button>
+        )}
+      </div>
+
+      {targets.map((target, index) => {
+        const isPrimary = index === 0;
+        const isSpoken = target.ttsEnabled || isPrimary;
+        const isDefaultVoice = getDefaultVoice(target.language) === target.voice;
+        return (
+          <div key={`lane-${index}`} className="flex flex-wrap items-center gap-2 text-xs">
+            <select
+              value={target.language}
+              onChange={(e) => update(index, { language: e.target.value, voice: getDefaultVoice(e.target.value) })}
+              className="flex-1 min-w-[110px] bg-eburon-800 border border-eburon-700 rounded px-2 py-1 text-gray-200 focus:outline-none cursor-pointer"
+            >
+              {LANGUAGES.filter(lang => lang === target.language || !targets.some(t => t.language === lang)).map(lang => (
+                <option key={`lane-${index}-${lang}`} value={lang}>{lang}</option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => !isPrimary && update(index, { ttsEnabled: !target.ttsEnabled })}
+              disabled={isPrimary}
+              title={isPrimary ? 'Primary language is always spoken' : 'Toggle dedicated TTS session'}
+              className={clsx(
+                "p-1 rounded border transition-colors",
+                isSpoken
+                  ? "border-eburon-success/40 text-eburon-success bg-eburon-success/10"
+                  : "border-gray-700 text-gray-600 hover:text-gray-300"
+              )}
+            >
+              {isSpoken ? <Volume2 size={12} /> : <VolumeX size={12} />}
+            </button>
+
+            <select
+              value={target.voice}
+              onChange={(e) => update(index, { voice: e.target.value as VoiceName })}
+              disabled={!isSpoken}
+              className="bg-eburon-800 border border-eburon-700 rounded px-2 py-1 text-gray-200 focus:outline-none cursor-pointer disabled:opacity-40"
+            >
+              {VOICE_NAMES.map(voice => (
+                <option key={`voice-${index}-${voice}`} value={voice}>{voice}</option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => onSetDefaultVoice(target.language, target.voice)}
+              disabled={!isSpoken || isDefaultVoice}
+              title={isDefaultVoice ? `${target.voice} is the default voice for ${target.language}` : `Use ${target.voice} by default for ${target.language}`}
+              className={clsx(
+                "p-1 rounded border transition-colors disabled:cursor-default",
+                isDefaultVoice ? "border-amber-500/40 text-amber-400" : "border-gray-700 text-gray-600 hover:text-gray-300 disabled:opacity-40"
+              )}
+            >
+              <Star size={12} fill={isDefaultVoice ? 'currentColor' : 'none'} />
+            </button>
+
+            <select
+              value={target.style}
+              onChange={(e) => update(index, { style: e.target.value as SpeakingStyle })}
+              disabled={!isSpoken}
+              className="bg-eburon-800 border border-eburon-700 rounded px-2 py-1 text-gray-200 focus:outline-none cursor-pointer disabled:opacity-40"
+            >
+              {SPEAKING_STYLES.map(style => (
+                <option key={`style-${index}-${style.id}`} value={style.id}>{style.label}</option>
+              ))}
+            </select>
+
+            <button
+              onClick={() => preview(index)}
+              disabled={!isSpoken || previewingIndex !== null}
+              title="Preview voice and style"
+              className="p-1 rounded border border-gray-700 text-gray-400 hover:text-eburon-accent hover:border-eburon-accent/40 transition-colors disabled:opacity-40"
+            >
+              {previewingIndex === index ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />}
+            </button>
+
+            {outputDevices.length > 0 && (
+              <select
+                value={target.outputDeviceId || ''}
+                onChange={(e) => update(index, { outputDeviceId: e.target.value || undefined })}
+                disabled={!isSpoken}
+                className="flex-1 min-w-[110px] max-w-[180px] bg-eburon-800 border border-eburon-700 rounded px-2 py-1 text-gray-200 focus:outline-none cursor-pointer disabled:opacity-40 truncate"
+              >
+                <option value="">Default Output</option>
+                {outputDevices.map(device => (
+                  <option key={`out-${index}-${device.deviceId}`} value={device.deviceId}>{device.label}</option>
+                ))}
+              </select>
+            )}
+
+            {!isPrimary && (
+              <button
+                onClick={() => remove(index)}
+                className="text-gray-600 hover:text-red-400 transition-colors"
+              >
+                <X size={12} />
+              </button>
+            )}
+
+            {isSpoken && target.style === 'custom' && (
+              <input
+                type="text"
+                value={target.customStyle || ''}
+                onChange={(e) => update(index, { customStyle: e.target.value })}
+                placeholder="Describe the delivery, e.g. warm, measured, slightly formal"
+                className="w-full bg-black/40 border border-gray-700 rounded px-2 py-1 text-gray-200 placeholder-gray-600 focus:outline-none focus:border-eburon-accent/40"
+              />
+            )}
+          </div>
+        );
+      })}
+
+      {previewError && (
+        <p className="text-[10px] font-mono text-red-400">{previewError}</p>
+      )}
+    </div>
+  );
+};
+
+export default TargetLanguagesPanel;
@@ -0,0 +1,47 @@
+import React, { useEffect } from 'react';
+import { useLiveApi } from '../hooks/use-live-api';
+import { ConnectionState, TargetLanguageConfig, TtsSender } from '../types';
+
+interface TtsChannelProps {
+  target: TargetLanguageConfig;
+  active: boolean;
+  onRegister: (language: string, sendText: TtsSender | null) => void;
+  onStateChange: (language: string, state: ConnectionState) => void;
+}
+
+// Renderless owner of a dedicated Live TTS session for one secondary target language.
+// Hooks can't be created in a loop, so App mounts one of these per enabled language.
+const TtsChannel: React.FC<TtsChannelProps> = ({ target, active, onRegister, onStateChange }) => {
+  const { connect, disconnect, sendText, connectionState } = useLiveApi({
+    targetLanguage: target.language,
+    voiceName: target.voice,
+    style: target.style,
+    customStyle: target.customStyle,
+    outputDeviceId: target.outputDeviceId,
+  });
+
+  useEffect(() => {
+    if (active) {
+      connect();
+    } else {
+      disconnect();
+    }
+  }, [active, connect, disconnect]);
+
+  useEffect(() => () => { disconnect(); }, [disconnect]);
+
+  useEffect(() => {
+    onStateChange(target.language, connectionState);
+  }, [target.language, connectionState, onStateChange]);
+
+  useEffect(() => {
+    // A reconnecting session still accepts text; the hook buffers it until the socket is back
+    const accepting = connectionState === ConnectionState.CONNECTED || connectionState === ConnectionState.RECONNECTING;
+    onRegister(target.language, accepting ? sendText : null);
+    return () => onRegister(target.language, null);
+  }, [target.language, connectionState, sendText, onRegister]);
+
+  return null;
+};
+
+export default TtsChannel;
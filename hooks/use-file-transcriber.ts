@@ -0,0 +1,76 @@
+import { useState, useRef, useCallback } from 'react';
+import { transcribeAudio } from '../utils/transcriber';
+import { transcriptionScheduler } from '../utils/request-scheduler';
+import { wavToBase64 } from '../utils/audio-utils';
+import { decodeAudioFile, segmentAudio, isSilent, FILE_SAMPLE_RATE } from '../utils/audio-file';
+
+const FILE_SEGMENT_DEADLINE_MS = 120000;
+
+export interface FileTranscriptionProgress {
+  fileName: string;
+  stage: 'decoding' | 'transcribing';
+  completed: number;
+  total: number;
+  // Seconds of audio in the file
+  duration: number;
+}
+
+interface UseFileTranscriberProps {
+  language?: string;
+  // Called in order for each transcribed segment; offset is seconds from the file start
+  onSegment: (text: string, offset: number) => Promise<void> | void;
+}
+
+export function useFileTranscriber({ language, onSegment }: UseFileTranscriberProps) {
+  const [progress, setProgress] = useState<FileTranscriptionProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelledRef = useRef(false);
+
+  const cancel = useCallback(() => {
+    cancelledRef.current = true;
+  }, []);
+
+  // Resolves with the file duration in seconds, or null if cancelled or failed
+  const transcribeFile = useCallback(async (file: File): Promise<number | null> => {
+    cancelledRef.current = false;
+    setError(null);
+    setProgress({ fileName: file.name, stage: 'decoding', completed: 0, total: 0, duration: 0 });
+
+    try {
+      const samples = await decodeAudioFile(file);
+      const duration = samples.length / FILE_SAMPLE_RATE;
+      const segments = segmentAudio(samples);
+
+      for (let i = 0; i < segments.length; i++) {
+        if (cancelledRef.current) return null;
+        setProgress({ fileName: file.name, stage: 'transcribing', completed: i, total: segments.length, duration });
+
+        const segment = segments[i];
+        if (isSilent(segment.samples)) continue;
+
+        try {
+          const base64 = wavToBase64(segment.samples, FILE_SAMPLE_RATE);
+          // Nothing is live here, so only the retry/backoff matters, not the short deadline
+          const text = await transcriptionScheduler.schedule(
+            signal => transcribeAudio(base64, 'audio/wav', language, signal),
+            { deadlineMs: FILE_SEGMENT_DEADLINE_MS }
+          );
+          if (cancelledRef.current) return null;
+          if (text.trim()) await onSegment(text, segment.start);
+        } catch (e) {
+          console.warn(`Segment at ${segment.start.toFixed(1)}s failed`, e);
+        }
+      }
+
+      return duration;
+    } catch (e: any) {
+      console.error("File transcription failed:", e);
+      setError(e.message || "Failed to process audio file.");
+      return null;
+    } finally {
+      setProgress(null);
+    }
+  }, [language, onSegment]);
+
+  return { transcribeFile, cancel, progress, isProcessing: progress !== null, error };
+}
@@ -1,6 +1,34 @@
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { GoogleGenAI } from "@google/genai";
+import { transcribeAudio } from '../utils/transcriber';
+import { transcriptionScheduler, DeadlineExceededError } from '../utils/request-scheduler';
+import { wavToBase64 } from '../utils/audio-utils';
+import { resample } from '../utils/dsp';
+import { isAudioWorkletSupported } from '../utils/worklets';
+import { SegmentationMode, VadConfig } from '../types';
+import { useVadSegmenter, DEFAULT_VAD_CONFIG } from './use-vad-segmenter';
+import { usePcmCapture } from './use-pcm-capture';
+import { createTranscriptStitcher } from '../utils/transcript-stitcher';
+import { VadSegmentMessage } from '../worklets/vad-processor';
+
+// Worklet-captured audio is sent at the rate the transcriber is tuned for
+const SEGMENT_SAMPLE_RATE = 16000;
+
+// Fixed chunks repeat this much of the previous chunk so boundary words are heard whole
+const CHUNK_OVERLAP_MS = 300;
+// Text without a sentence end is released anyway once it has been held this long
+const STITCH_RELEASE_MS = 2500;
+
+// Audio that is already base64 and needs no FileReader round-trip
+interface EncodedAudio {
+  base64: string;
+  mimeType: string;
+}
+
+function encodePcm(samples: Float32Array, inputSampleRate: number): EncodedAudio {
+  const resampled = resample(samples, inputSampleRate, SEGMENT_SAMPLE_RATE);
+  return { base64: wavToBase64(resampled, SEGMENT_SAMPLE_RATE), mimeType: 'audio/wav' };
+}
 
 // Helper to convert blob to base64
 function blobToBase64(blob: Blob): Promise<string> {
@@ -24,10 +52,21 @@ interface UseFlashTranscriberProps {
   stream: MediaStream | null;
   onTranscript: (text: string) => void;
   language?: string;
+  // 'fixed' sends a chunk every second; 'vad' sends whole utterances and skips silence
+  segmentation?: SegmentationMode;
+  vadConfig?: VadConfig;
 }
 
-export function useFlashTranscriber({ stream, onTranscript, language = 'en-US' }: UseFlashTranscriberProps) {
+export function useFlashTranscriber({
+  stream,
+  onTranscript,
+  language = 'en-US',
+  segmentation = 'fixed',
+  vadConfig = DEFAULT_VAD_CONFIG
+}: UseFlashTranscriberProps) {
   const [isTranscribing, setIsTranscribing] = useState(false);
+  // Chunks whose speech never reached the transcript (deadline or permanent failure)
+  const [droppedChunks, setDroppedChunks] = useState(0);
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const mimeTypeRef = useRef<string>('');
   
@@ -36,9 +75,60 @@ export function useFlashTranscriber({ stream, onTranscript, language = 'en-US' }
   const nextOutputSequenceRef = useRef(0);
   const pendingChunksRef = useRef<Map<number, string>>(new Map());
 
+  // Boundary stitching for overlapping worklet chunks (VAD segments already end
+  // on pauses, and MediaRecorder slices share no audio to deduplicate)
+  const stitcherRef = useRef(createTranscriptStitcher());
+  const stitchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const onTranscriptRef = useRef(onTranscript);
+
+  // PCM batches from the worklet, accumulated up to one chunk
+  const pcmBufferRef = useRef<Float32Array[]>([]);
+  const pcmBufferedRef = useRef(0);
+
   // Faster updates for streaming feel
   const CHUNK_DURATION = 1000; 
 
+  // Capture path: VAD utterances or fixed PCM chunks when AudioWorklet exists,
+  // otherwise MediaRecorder timeslices. A worklet that fails to load (e.g. a CSP
+  // blocking blob: modules) also falls back to MediaRecorder for that stream.
+  const hasWorklet = isAudioWorkletSupported();
+  const useVad = segmentation === 'vad' && hasWorklet;
+  const [workletError, setWorkletError] = useState<string | null>(null);
+  const segmentsByVad = useVad && !workletError;
+  const stitchesChunks = !useVad && hasWorklet && !workletError;
+
+  useEffect(() => {
+    onTranscriptRef.current = onTranscript;
+  }, [onTranscript]);
+
+  const releaseStitched = useCallback(() => {
+    if (stitchTimerRef.current) clearTimeout(stitchTimerRef.current);
+    stitchTimerRef.current = null;
+    const remaining = stitcherRef.current.flush();
+    if (remaining) onTranscriptRef.current(remaining);
+  }, []);
+
+  const emitText = useCallback((text: string) => {
+    if (!stitchesChunks) {
+      onTranscriptRef.current(text);
+      return;
+    }
+    const sentences = stitcherRef.current.push(text);
+    sentences.forEach(sentence => onTranscriptRef.current(sentence));
+
+    // Speakers who never pause for punctuation still get released. The clock runs
+    // from when the held text started, not from the latest chunk, so continuous
+    // speech cannot keep pushing the release back.
+    const heldTextChanged = sentences.length > 0;
+    if (!stitcherRef.current.hasPending() || heldTextChanged) {
+      if (stitchTimerRef.current) clearTimeout(stitchTimerRef.current);
+      stitchTimerRef.current = null;
+    }
+    if (stitcherRef.current.hasPending() && !stitchTimerRef.current) {
+      stitchTimerRef.current = setTimeout(releaseStitched, STITCH_RELEASE_MS);
+    }
+  }, [stitchesChunks, releaseStitched]);
+
   const flushQueue = useCallback(() => {
     let nextId = nextOutputSequenceRef.current;
     
@@ -48,17 +138,17 @@ export function useFlashTranscriber({ stream, onTranscript, language = 'en-US' }
         pendingChunksRef.current.delete(nextId);
         
         if (text && text.trim()) {
-            onTranscript(text);
+            emitText(text);
         }
         
         nextId++;
     }
     nextOutputSequenceRef.current = nextId;
-  }, [onTranscript]);
+  }, [emitText]);
 
-  const processAudioChunk = useCallback(async (blob: Blob, sequenceId: number) => {
+  const processAudioChunk = useCallback(async (chunk: Blob | EncodedAudio, sequenceId: number) => {
     // Lower threshold to capture short commands
-    if (blob.size < 50) {
+    if (chunk instanceof Blob ? chunk.size < 50 : !chunk.base64) {
         // Even if empty, we must mark this sequence as done to not block the queue
         pendingChunksRef.current.set(sequenceId, "");
         flushQueue();
@@ -66,60 +156,101 @@ export function useFlashTranscriber({ stream, onTranscript, language = 'en-US' }
     }
 
     try {
-      const apiKey = process.env.API_KEY;
-      if (!apiKey) throw new Error("No API Key");
-
-      const ai = new GoogleGenAI({ apiKey });
-      const base64Audio = await blobToBase64(blob);
-
-      const prompt = `
-        Task: Transcribe this audio segment from a continuous stream verbatim.
-        Language: ${language}.
-        Rules:
-        - Output ONLY the transcribed text.
-        - No notes, no explanations.
-        - If audio is cut off, transcribe what is audible.
-        - If no speech, return empty string.
-      `;
+      const base64Audio = chunk instanceof Blob ? await blobToBase64(chunk) : chunk.base64;
 
       // Use the actual mime type determined by the recorder
-      const mimeType = mimeTypeRef.current || 'audio/webm';
-
-      const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: [
-          {
-            inlineData: {
-              mimeType: mimeType,
-              data: base64Audio
-            }
-          },
-          { text: prompt }
-        ]
-      });
+      const mimeType = chunk instanceof Blob ? mimeTypeRef.current || 'audio/webm' : chunk.mimeType;
 
-      const text = response.text?.trim() || "";
+      const text = await transcriptionScheduler.schedule(
+        signal => transcribeAudio(base64Audio, mimeType, language, signal)
+      );
       
       // Store result and attempt to flush
       pendingChunksRef.current.set(sequenceId, text);
       flushQueue();
 
     } catch (e) {
-      // If a chunk fails, mark it empty so queue proceeds
-      console.warn(`Chunk ${sequenceId} failed processing`, e);
+      // If a chunk fails, mark it empty so queue proceeds; a late chunk
+      // must not hold back everything recorded after it
+      if (e instanceof DeadlineExceededError) {
+        console.warn(`Chunk ${sequenceId} skipped: ${e.message}`);
+      } else {
+        console.warn(`Chunk ${sequenceId} failed processing`, e);
+      }
+      setDroppedChunks(count => count + 1);
       pendingChunksRef.current.set(sequenceId, "");
       flushQueue();
     }
   }, [language, flushQueue]);
 
+  // Reset Queue state on new stream start
+  useEffect(() => {
+    chunkSequenceRef.current = 0;
+    nextOutputSequenceRef.current = 0;
+    pendingChunksRef.current.clear();
+    setDroppedChunks(0);
+    pcmBufferRef.current = [];
+    pcmBufferedRef.current = 0;
+    stitcherRef.current.reset();
+
+    // Whatever is still buffered when the stream ends is the speaker's last words
+    return releaseStitched;
+  }, [stream, releaseStitched]);
+
+  // --- Utterance segmentation (AudioWorklet VAD) ---
+  const handleSegment = useCallback((segment: VadSegmentMessage) => {
+    processAudioChunk(encodePcm(segment.samples, segment.sampleRate), chunkSequenceRef.current++);
+  }, [processAudioChunk]);
+
+  const vad = useVadSegmenter({
+    stream: useVad ? stream : null,
+    config: vadConfig,
+    onSegment: handleSegment
+  });
+
+  // --- Fixed-length chunks (AudioWorklet PCM) ---
+  // Each chunk is encoded on its own, so no chunk depends on a header sent earlier
+  const handleSamples = useCallback((samples: Float32Array, sampleRate: number) => {
+    pcmBufferRef.current.push(samples);
+    pcmBufferedRef.current += samples.length;
+    const overlap = Math.round(sampleRate * CHUNK_OVERLAP_MS / 1000);
+    if (pcmBufferedRef.current < sampleRate * CHUNK_DURATION / 1000 + overlap) return;
+
+    const chunk = new Float32Array(pcmBufferedRef.current);
+    let offset = 0;
+    for (const batch of pcmBufferRef.current) {
+      chunk.set(batch, offset);
+      offset += batch.length;
+    }
+    // The tail seeds the next chunk; the stitcher removes the words it repeats
+    pcmBufferRef.current = [chunk.slice(chunk.length - overlap)];
+    pcmBufferedRef.current = overlap;
+    processAudioChunk(encodePcm(chunk, sampleRate), chunkSequenceRef.current++);
+  }, [processAudioChunk]);
+
+  const pcm = usePcmCapture({
+    stream: !useVad && hasWorklet ? stream : null,
+    onSamples: handleSamples
+  });
+
+  // Mirrored into state because emitText, declared above the worklet hooks, depends on it
+  const captureError = useVad ? vad.error : pcm.error;
+  useEffect(() => {
+    if (captureError) console.warn("Falling back to MediaRecorder capture:", captureError);
+    setWorkletError(captureError);
+  }, [captureError]);
+
+  // MediaRecorder is only the fallback for browsers without a working AudioWorklet
+  const recorderStream = hasWorklet && !workletError ? null : stream;
+
   useEffect(() => {
     // 1. Basic Stream Validation
-    if (!stream || !stream.active || stream.getAudioTracks().length === 0) {
+    if (!recorderStream || !recorderStream.active || recorderStream.getAudioTracks().length === 0) {
       setIsTranscribing(false);
       return;
     }
 
-    const audioTrack = stream.getAudioTracks()[0];
+    const audioTrack = recorderStream.getAudioTracks()[0];
     if (audioTrack.readyState === 'ended') {
         setIsTranscribing(false);
         return;
@@ -132,19 +263,14 @@ export function useFlashTranscriber({ stream, onTranscript, language = 'en-US' }
       } catch (e) { /* ignore */ }
     }
 
-    // Reset Queue state on new stream start
-    chunkSequenceRef.current = 0;
-    nextOutputSequenceRef.current = 0;
-    pendingChunksRef.current.clear();
-
     const startRecording = () => {
         // 2. Late Binding Validation
-        if (!stream || !stream.active) {
+        if (!recorderStream || !recorderStream.active) {
             setIsTranscribing(false);
             return;
         }
 
-        const currentTrack = stream.getAudioTracks()[0];
+        const currentTrack = recorderStream.getAudioTracks()[0];
         if (!currentTrack || currentTrack.readyState !== 'live' || !currentTrack.enabled) {
              setIsTranscribing(false);
              return;
@@ -183,7 +309,7 @@ export function useFlashTranscriber({ stream, onTranscript, language = 'en-US' }
 
              try {
                 const options = type ? { mimeType: type } : undefined;
-                recorder = new MediaRecorder(stream, options);
+                recorder = new MediaRecorder(recorderStream, options);
                 
                 setupRecorderEvents(recorder);
                 
@@ -205,7 +331,7 @@ export function useFlashTranscriber({ stream, onTranscript, language = 'en-US' }
         if (!success) {
             try {
                 console.warn("Falling back to default MediaRecorder configuration");
-                recorder = new MediaRecorder(stream); // No options at all
+                recorder = new MediaRecorder(recorderStream); // No options at all
                 setupRecorderEvents(recorder);
                 recorder.start(CHUNK_DURATION);
                 
@@ -230,7 +356,12 @@ export function useFlashTranscriber({ stream, onTranscript, language = 'en-US' }
         } catch (e) { /* ignore */ }
       }
     };
-  }, [stream, processAudioChunk]);
+  }, [recorderStream, processAudioChunk]);
 
-  return { isTranscribing };
+  return {
+    isTranscribing: isTranscribing || vad.isActive || pcm.isActive,
+    isSpeaking: vad.isSpeaking,
+    droppedChunks,
+    segmentation: (segmentsByVad ? 'vad' : 'fixed') as SegmentationMode
+  };
 }
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GlossaryEntry } from '../types';
+import { createGlossaryId, filterGlossary } from '../utils/glossary';
+
+const STORAGE_KEY = 'eburon.glossary';
+
+function loadEntries(): GlossaryEntry[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch (e) {
+    console.warn("Failed to load glossary", e);
+    return [];
+  }
+}
+
+export function useGlossary() {
+  const [entries, setEntries] = useState<GlossaryEntry[]>(loadEntries);
+
+  // Persist edits so the glossary survives reloads
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+      console.warn("Failed to save glossary", e);
+    }
+  }, [entries]);
+
+  const addEntry = useCallback((entry: Omit<GlossaryEntry, 'id'>) => {
+    setEntries(prev => [...prev, { ...entry, id: createGlossaryId() }]);
+  }, []);
+
+  const updateEntry = useCallback((id: string, patch: Partial<GlossaryEntry>) => {
+    setEntries(prev => prev.map(e => e.id === id ? { ...e, ...patch } : e));
+  }, []);
+
+  const removeEntry = useCallback((id: string) => {
+    setEntries(prev => prev.filter(e => e.id !== id));
+  }, []);
+
+  // Imported rows replace existing entries with the same source term and language pair
+  const importEntries = useCallback((imported: GlossaryEntry[]) => {
+    const keyOf = (e: GlossaryEntry) => `${e.sourceLanguage}|${e.targetLanguage}|${e.source.toLowerCase()}`;
+    setEntries(prev => {
+      const incoming = new Set(imported.map(keyOf));
+      return [...prev.filter(e => !incoming.has(keyOf(e))), ...imported];
+    });
+  }, []);
+
+  const clearEntries = useCallback(() => setEntries([]), []);
+
+  const getEntriesForPair = useCallback((sourceLanguage: string, targetLanguage: string) =>
+    filterGlossary(entries, sourceLanguage, targetLanguage), [entries]);
+
+  return { entries, addEntry, updateEntry, removeEntry, importEntries, clearEntries, getEntriesForPair };
+}
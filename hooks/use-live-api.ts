@@ -1,26 +1,80 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
-import { convertPCM24kToFloat32 } from '../utils/audio-utils';
-import { ConnectionState, VoiceName } from '../types';
+import { GoogleGenAI, LiveServerMessage, Session } from '@google/genai';
+import { decodeLiveAudio } from '../utils/audio-utils';
+import { ConnectionState, SpeakingStyle, VoiceName } from '../types';
+import { createPlaybackQueue, LagPolicy, PlaybackQueue, PlaybackState } from '../utils/playback-queue';
+import { createOutputRoute, OutputRoute } from '../utils/output-device';
+import { buildTtsSessionConfig, DEFAULT_STYLE, DEFAULT_VOICE } from '../utils/voices';
+
+// What happens to text sent while the socket is down:
+// 'replay' speaks all of it once reconnected, 'drop-stale' skips anything too old to still be useful
+export type TextBufferPolicy = 'replay' | 'drop-stale';
 
 interface UseLiveApiProps {
   targetLanguage?: string;
+  voiceName?: VoiceName;
+  style?: SpeakingStyle;
+  customStyle?: string;
+  outputDeviceId?: string;
+  // Interpretation fader, 0..1
+  outputGain?: number;
+  bufferPolicy?: TextBufferPolicy;
+  maxLagSeconds?: number;
+  lagPolicy?: LagPolicy;
 }
 
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 10000;
+// Under 'drop-stale', a sentence older than this is no longer worth interpreting
+const STALE_TEXT_MS = 8000;
+
+const IDLE_PLAYBACK: PlaybackState = { paused: false, lag: 0, queued: 0, playbackRate: 1, speaking: false };
+
 export function useLiveApi({ 
   targetLanguage = 'Spanish', 
+  voiceName = DEFAULT_VOICE,
+  style = DEFAULT_STYLE,
+  customStyle,
+  outputDeviceId,
+  outputGain = 1,
+  bufferPolicy = 'drop-stale',
+  maxLagSeconds = 10,
+  lagPolicy = 'drop-oldest',
 }: UseLiveApiProps = {}) {
   const [connectionState, setConnectionState] = useState<ConnectionState>(ConnectionState.DISCONNECTED);
   const [error, setError] = useState<string | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [volume, setVolume] = useState(0); // Only for output volume now
+  const [playback, setPlayback] = useState<PlaybackState>(IDLE_PLAYBACK);
   
   const outputAudioContextRef = useRef<AudioContext | null>(null);
-  const nextStartTimeRef = useRef<number>(0);
+  // Spoken utterances in order; owns scheduling of everything played
+  const queueRef = useRef<PlaybackQueue | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
+  const outputGainRef = useRef<GainNode | null>(null);
+  // Pre-fader point where recordings tap the spoken audio
+  const outputTapRef = useRef<GainNode | null>(null);
+  const outputStreamRef = useRef<MediaStreamAudioDestinationNode | null>(null);
+  // Carries the analysed output to the selected speaker or virtual cable
+  const outputRouteRef = useRef<OutputRoute | null>(null);
   const animationFrameRef = useRef<number>(0);
   
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  const sessionPromiseRef = useRef<Promise<Session> | null>(null);
+  // The resolved session, so the playback queue can dispatch synchronously
+  const sessionRef = useRef<Session | null>(null);
+
+  // Reconnect bookkeeping: wantConnected is true between connect() and disconnect()
+  const wantConnectedRef = useRef(false);
+  const isOpenRef = useRef(false);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const bufferPolicyRef = useRef(bufferPolicy);
+  bufferPolicyRef.current = bufferPolicy;
+  // Read when a session opens, so a preset change does not recreate connect()
+  const presetRef = useRef({ voiceName, style, customStyle });
+  presetRef.current = { voiceName, style, customStyle };
 
   // Initialize output audio context
   useEffect(() => {
@@ -31,6 +85,27 @@ export function useLiveApi({
     const analyser = outputAudioContextRef.current.createAnalyser();
     analyser.fftSize = 256;
     analyserRef.current = analyser;
+    const gain = outputAudioContextRef.current.createGain();
+    gain.connect(analyser);
+    outputGainRef.current = gain;
+    const tap = outputAudioContextRef.current.createGain();
+    tap.connect(gain);
+    outputTapRef.current = tap;
+    const outputRoute = createOutputRoute(outputAudioContextRef.current, analyser);
+    outputRouteRef.current = outputRoute;
+
+    // Text goes out one TTS turn at a time so its audio can be attributed to it
+    const queue = createPlaybackQueue({
+      ctx: outputAudioContextRef.current,
+      output: tap,
+      dispatch: (text) => {
+        if (!isOpenRef.current || !sessionRef.current) return false;
+        sessionRef.current.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true });
+        return true;
+      },
+    });
+    queueRef.current = queue;
+    const unsubscribe = queue.subscribe(setPlayback);
 
     // Visualizer Loop
     const updateVolume = () => {
@@ -51,6 +126,13 @@ export function useLiveApi({
     updateVolume();
 
     return () => {
+        unsubscribe();
+        queue.dispose();
+        queueRef.current = null;
+        outputRoute.dispose();
+        outputRouteRef.current = null;
+        outputTapRef.current = null;
+        outputStreamRef.current = null;
         if (outputAudioContextRef.current) {
             outputAudioContextRef.current.close();
         }
@@ -60,16 +142,92 @@ export function useLiveApi({
     };
   }, []);
 
+  // Route spoken audio to the chosen speaker; an unavailable device falls back to the default
+  useEffect(() => {
+    const outputRoute = outputRouteRef.current;
+    if (!outputRoute) return;
+    outputRoute.setDevice(outputDeviceId).catch(e => {
+      console.warn("Failed to set TTS output device", e);
+      setError(`Speech output device unavailable, using default output: ${e.message || e}`);
+      outputRoute.setDevice(undefined).catch(() => { /* default output always exists */ });
+    });
+  }, [outputDeviceId]);
+
+  useEffect(() => {
+    const gain = outputGainRef.current;
+    if (!gain) return;
+    // Short ramp so moving the fader does not click
+    gain.gain.setTargetAtTime(outputGain, gain.context.currentTime, 0.02);
+  }, [outputGain]);
+
+  useEffect(() => {
+    queueRef.current?.setPolicy({ maxLagSeconds, lagPolicy });
+  }, [maxLagSeconds, lagPolicy]);
+
+  // Detaches first so the close callback of this session is ignored
+  const closeSession = useCallback(async () => {
+    const closing = sessionPromiseRef.current;
+    sessionPromiseRef.current = null;
+    sessionRef.current = null;
+    isOpenRef.current = false;
+    if (closing) {
+      try {
+        (await closing).close();
+      } catch (e) {
+        // Never opened; nothing to close
+      }
+    }
+  }, []);
+
   const disconnect = useCallback(async () => {
+    wantConnectedRef.current = false;
+    isOpenRef.current = false;
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    // Nothing may keep talking after the pipeline is terminated
+    queueRef.current?.reset();
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
     setConnectionState(ConnectionState.DISCONNECTED);
-    sessionPromiseRef.current = null;
+
+    await closeSession();
+  }, [closeSession]);
+
+  // Sends whatever queued up during the outage, subject to the buffer policy
+  const replayPendingText = useCallback((session: Session) => {
+    sessionRef.current = session;
+    isOpenRef.current = true;
+    if (bufferPolicyRef.current === 'drop-stale') queueRef.current?.dropUndispatched(STALE_TEXT_MS);
+    queueRef.current?.dispatchNext();
   }, []);
 
-  const connect = useCallback(async () => {
+  const openSessionRef = useRef<() => Promise<void>>(async () => {});
+
+  const scheduleReconnect = useCallback(() => {
+    if (!wantConnectedRef.current || reconnectTimerRef.current) return;
+
+    const attempt = reconnectAttemptRef.current + 1;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      wantConnectedRef.current = false;
+      queueRef.current?.dropUndispatched(0);
+      setConnectionState(ConnectionState.ERROR);
+      setError(`TTS connection lost after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts.`);
+      return;
+    }
+
+    reconnectAttemptRef.current = attempt;
+    setReconnectAttempt(attempt);
+    setConnectionState(ConnectionState.RECONNECTING);
+
+    const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** (attempt - 1)) * (0.5 + Math.random() / 2);
+    reconnectTimerRef.current = setTimeout(() => {
+      reconnectTimerRef.current = null;
+      openSessionRef.current();
+    }, delay);
+  }, []);
+
+  const openSession = useCallback(async () => {
     try {
-      setError(null);
-      setConnectionState(ConnectionState.CONNECTING);
-      
       const apiKey = process.env.API_KEY;
       if (!apiKey) {
         throw new Error('API_KEY not found in environment');
@@ -77,129 +235,158 @@ export function useLiveApi({
 
       const ai = new GoogleGenAI({ apiKey });
 
-      // STRICT TTS Configuration with Charismatic Persona
-      // UPDATED: Language agnostic to support dynamic switching
-      const systemInstruction = `
-        ROLE: Professional Voice Actor / Dynamic Orator.
-        TASK: You will receive text. Your ONLY job is to read it aloud in the language it is written in.
-        
-        VOICE STYLE GUIDE (Apply STRICTLY):
-        1. DYNAMIC & MODULATED: Do not be monotone. Shift frequently from soft, conversational whispers (to draw the audience in) to loud, projecting shouts (to emphasize power and conviction).
-        2. RHYTHMIC & REPETITIVE: Use a "preaching cadence". Build momentum rhythmically. Use repetition (anaphora) effectively.
-        3. STACCATO & EMPHATIC: When listing struggles or key points, use a punchy, staccato delivery to make words land heavily.
-        4. THEATRICAL: Use dramatic pauses to let concepts sink in. Act out the emotions (defiance, hope, authority).
-        
-        TONE:
-        - Passionate and Urgent.
-        - Encouraging but Authoritative.
-        - Defiant against negativity.
-        - Speak with ABSOLUTE CONVICTION.
-        
-        RULES:
-        1. DO NOT translate. The text provided is already in the target language.
-        2. DO NOT converse. Do not say "Okay" or "Sure".
-        3. READ IMMEDIATELY in the language of the text.
-        4. If you receive no text, be silent.
-      `;
-
-      const config = {
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Fenrir' as VoiceName } }, // Switched to Fenrir for more intensity/depth
-          },
-          // CRITICAL: Disable all input audio processing
-          inputAudioTranscription: undefined, 
-          systemInstruction: systemInstruction,
-        },
-      };
+      const { voiceName, style, customStyle } = presetRef.current;
+      const config = buildTtsSessionConfig(voiceName, style, customStyle);
 
       const sessionPromise = ai.live.connect({
         ...config,
         callbacks: {
           onopen: () => {
             console.log('Gemini Live Connected (TTS Mode)');
+            if (sessionPromiseRef.current !== sessionPromise) return;
+            reconnectAttemptRef.current = 0;
+            setReconnectAttempt(0);
+            setError(null);
             setConnectionState(ConnectionState.CONNECTED);
+            sessionPromise.then(replayPendingText);
           },
-          onmessage: async (message: LiveServerMessage) => {
+          onmessage: (message: LiveServerMessage) => {
+            if (sessionPromiseRef.current !== sessionPromise) return;
+            const queue = queueRef.current;
+            const ctx = outputAudioContextRef.current;
+
             // Handle Audio Output (TTS)
             const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
             
-            if (base64Audio && outputAudioContextRef.current) {
+            if (base64Audio && queue && ctx) {
                try {
-                if (outputAudioContextRef.current.state === 'suspended') {
-                  await outputAudioContextRef.current.resume();
-                }
-
-                const binaryString = window.atob(base64Audio);
-                const bytes = new Uint8Array(binaryString.length);
-                for (let i = 0; i < binaryString.length; i++) {
-                  bytes[i] = binaryString.charCodeAt(i);
-                }
-                
-                const dataView = new DataView(bytes.buffer);
-                const float32Data = convertPCM24kToFloat32(dataView);
-                
-                const audioBuffer = outputAudioContextRef.current.createBuffer(1, float32Data.length, 24000);
-                audioBuffer.getChannelData(0).set(float32Data);
-
-                const currentTime = outputAudioContextRef.current.currentTime;
-                if (nextStartTimeRef.current < currentTime) {
-                    nextStartTimeRef.current = currentTime;
-                }
-                
-                const source = outputAudioContextRef.current.createBufferSource();
-                source.buffer = audioBuffer;
-                
-                // Route through analyser for visualization
-                if (analyserRef.current) {
-                    source.connect(analyserRef.current);
-                    analyserRef.current.connect(outputAudioContextRef.current.destination);
-                } else {
-                    source.connect(outputAudioContextRef.current.destination);
-                }
-                
-                source.start(nextStartTimeRef.current);
-                nextStartTimeRef.current += audioBuffer.duration;
+                queue.appendAudio(decodeLiveAudio(ctx, base64Audio));
                } catch (e) {
                  console.error("Error processing output audio", e);
                }
             }
+
+            // The server abandoned this turn; cut its audio instead of letting it play out
+            if (message.serverContent?.interrupted) {
+              queue?.interrupt();
+            }
+
+            // The sentence is fully voiced; the queue can send the next one
+            if (message.serverContent?.turnComplete) {
+              queue?.completeTurn();
+            }
           },
           onerror: (err) => {
             console.error('Gemini Live Error:', err);
-            setConnectionState(ConnectionState.ERROR);
+            if (sessionPromiseRef.current !== sessionPromise) return;
+            isOpenRef.current = false;
+            sessionRef.current = null;
             setError("TTS Connection Error.");
+            // An error is followed by close; reconnect from there unless we gave up
+            if (!wantConnectedRef.current) setConnectionState(ConnectionState.ERROR);
           },
           onclose: () => {
             console.log('Gemini Live Closed');
-            setConnectionState(ConnectionState.DISCONNECTED);
+            // Ignore closes of sessions we have already replaced or abandoned
+            if (sessionPromiseRef.current !== sessionPromise) return;
+            isOpenRef.current = false;
+            sessionRef.current = null;
+            // Text whose turn never finished is sent again on the next session
+            queueRef.current?.requeueInFlight();
+            if (wantConnectedRef.current) {
+              scheduleReconnect();
+            } else {
+              setConnectionState(ConnectionState.DISCONNECTED);
+            }
           }
         }
       });
 
       sessionPromiseRef.current = sessionPromise;
+      // A failed handshake rejects instead of calling onclose
+      sessionPromise.catch((e: any) => {
+        if (sessionPromiseRef.current !== sessionPromise) return;
+        console.error('Failed to open Live session:', e);
+        isOpenRef.current = false;
+        scheduleReconnect();
+      });
 
     } catch (error: any) {
       console.error('Failed to connect:', error);
+      wantConnectedRef.current = false;
       setConnectionState(ConnectionState.ERROR);
       setError(error.message || "Failed to initialize TTS.");
     }
-  }, [disconnect]); // Removed targetLanguage dependency to prevent unnecessary reconnects
+  }, [replayPendingText, scheduleReconnect]);
+
+  openSessionRef.current = openSession;
+
+  // A new voice or style needs a new session: close the old one and open a fresh
+  // one, re-sending the sentence that was being voiced when the preset changed
+  const presetKey = `${voiceName}|${style}|${customStyle ?? ''}`;
+  const appliedPresetRef = useRef(presetKey);
+  useEffect(() => {
+    if (appliedPresetRef.current === presetKey) return;
+    appliedPresetRef.current = presetKey;
+    if (!wantConnectedRef.current) return;
+
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    reconnectTimerRef.current = null;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    queueRef.current?.requeueInFlight();
+    setConnectionState(ConnectionState.CONNECTING);
+    // closeSession detaches synchronously, so the new session can open right away
+    closeSession();
+    openSession();
+  }, [presetKey, closeSession, openSession]);
 
-  const sendText = useCallback(async (text: string) => {
-    if (sessionPromiseRef.current) {
-        const session = await sessionPromiseRef.current;
-        session.send({ parts: [{ text }] });
+  const connect = useCallback(async () => {
+    wantConnectedRef.current = true;
+    reconnectAttemptRef.current = 0;
+    setReconnectAttempt(0);
+    setError(null);
+    setConnectionState(ConnectionState.CONNECTING);
+    await openSession();
+  }, [openSession]);
+
+  // Queues text for speaking; itemId ties the utterance to its transcript entry.
+  // While the socket is (re)opening the text simply waits in the queue.
+  const sendText = useCallback(async (text: string, itemId?: string) => {
+    if (!wantConnectedRef.current) return;
+    queueRef.current?.enqueue(text, itemId);
+  }, []);
+
+  const pausePlayback = useCallback(() => queueRef.current?.pause(), []);
+  const resumePlayback = useCallback(() => queueRef.current?.resume(), []);
+  const skipUtterance = useCallback(() => queueRef.current?.skip(), []);
+  // The spoken interpretation as a MediaStream, independent of the output fader and device
+  const getOutputStream = useCallback((): MediaStream | null => {
+    const ctx = outputAudioContextRef.current;
+    const tap = outputTapRef.current;
+    if (!ctx || !tap) return null;
+    if (!outputStreamRef.current) {
+      outputStreamRef.current = ctx.createMediaStreamDestination();
+      tap.connect(outputStreamRef.current);
     }
+    return outputStreamRef.current.stream;
   }, []);
 
+  // Stop speaking: silences the current turn and drops everything queued
+  const flushPlayback = useCallback(() => queueRef.current?.flush(), []);
+
   return {
     connect,
     disconnect,
     sendText,
     connectionState,
+    reconnectAttempt,
+    playback,
+    pausePlayback,
+    resumePlayback,
+    skipUtterance,
+    flushPlayback,
+    getOutputStream,
     volume,
     error
   };
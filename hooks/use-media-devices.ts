@@ -1,9 +1,10 @@
 
 import { useState, useEffect, useCallback } from 'react';
-import { AudioDevice } from '../types';
+import { AudioDevice, AudioOutputDevice } from '../types';
 
 export function useMediaDevices() {
   const [devices, setDevices] = useState<AudioDevice[]>([]);
+  const [outputDevices, setOutputDevices] = useState<AudioOutputDevice[]>([]);
   const [permissionGranted, setPermissionGranted] = useState(false);
 
   const fetchDevices = useCallback(async () => {
@@ -50,6 +51,14 @@ export function useMediaDevices() {
       });
 
       setDevices(formattedDevices);
+
+      // Speakers / virtual cables for routing translated speech
+      setOutputDevices(allDevices
+        .filter(d => d.kind === 'audiooutput')
+        .map(d => ({
+          deviceId: d.deviceId,
+          label: d.label || `Speaker ${d.deviceId.slice(0, 5)}...`
+        })));
     } catch (e) {
       console.error("Error enumerating devices", e);
     }
@@ -63,5 +72,5 @@ export function useMediaDevices() {
     };
   }, [fetchDevices]);
 
-  return { devices, fetchDevices, permissionGranted };
+  return { devices, outputDevices, fetchDevices, permissionGranted };
 }
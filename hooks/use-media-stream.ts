@@ -1,7 +1,13 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
 import { AudioDevice } from '../types';
 
-export function useMediaStream(selectedDevice?: AudioDevice) {
+interface MediaStreamOptions {
+  // Keep a captured tab from also playing out of the speakers (Chrome); used when
+  // the monitor mix replays the capture itself, ducked under the interpretation
+  suppressLocalAudioPlayback?: boolean;
+}
+
+export function useMediaStream(selectedDevice?: AudioDevice, { suppressLocalAudioPlayback = false }: MediaStreamOptions = {}) {
   const [stream, setStream] = useState<MediaStream | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isStreaming, setIsStreaming] = useState(false);
@@ -66,7 +72,8 @@ export function useMediaStream(selectedDevice?: AudioDevice) {
             echoCancellation: false, // Essential for high fidelity music/movies
             noiseSuppression: false,
             autoGainControl: false,
-            channelCount: 2
+            channelCount: 2,
+            suppressLocalAudioPlayback
         },
         selfBrowserSurface: "exclude" // Prevent capturing the app itself to avoid feedback
       };
@@ -146,7 +153,7 @@ export function useMediaStream(selectedDevice?: AudioDevice) {
       setError(msg);
       setIsStreaming(false);
     }
-  }, [selectedDevice, stopStream]);
+  }, [selectedDevice, suppressLocalAudioPlayback, stopStream]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -0,0 +1,95 @@
+import { useEffect, useRef } from 'react';
+import { MonitorMixConfig } from '../types';
+
+export const DEFAULT_MONITOR_MIX: MonitorMixConfig = {
+  enabled: false,
+  duckDb: 12,
+  attackMs: 80,
+  releaseMs: 600,
+  originalVolume: 0.8,
+  interpretationVolume: 1,
+};
+
+interface UseMonitorMixProps {
+  stream: MediaStream | null;
+  config: MonitorMixConfig;
+  // True while the interpretation is audible; the original is ducked meanwhile
+  isInterpreting: boolean;
+}
+
+// setTargetAtTime approaches its target exponentially; after three time
+// constants it is within 5%, which is what "attack/release time" means here
+const timeConstant = (ms: number) => Math.max(0.001, ms / 1000 / 3);
+
+const dbToGain = (db: number) => Math.pow(10, -db / 20);
+
+// Plays the captured stream back locally (stream -> duck -> fader -> speakers)
+// so the original can be heard under the interpretation, like a booth monitor.
+export function useMonitorMix({ stream, config, isInterpreting }: UseMonitorMixProps) {
+  const ctxRef = useRef<AudioContext | null>(null);
+  const duckRef = useRef<GainNode | null>(null);
+  const faderRef = useRef<GainNode | null>(null);
+  const configRef = useRef(config);
+  configRef.current = config;
+  const isInterpretingRef = useRef(isInterpreting);
+  isInterpretingRef.current = isInterpreting;
+
+  useEffect(() => {
+    if (!stream || !config.enabled || stream.getAudioTracks().length === 0) return;
+
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    const ctx: AudioContext = new AudioContextClass();
+    const source = ctx.createMediaStreamSource(stream);
+    const duck = ctx.createGain();
+    const fader = ctx.createGain();
+    const { duckDb, originalVolume } = configRef.current;
+    duck.gain.value = isInterpretingRef.current ? dbToGain(duckDb) : 1;
+    fader.gain.value = originalVolume;
+    source.connect(duck);
+    duck.connect(fader);
+    fader.connect(ctx.destination);
+
+    ctxRef.current = ctx;
+    duckRef.current = duck;
+    faderRef.current = fader;
+
+    return () => {
+      source.disconnect();
+      ctx.close();
+      ctxRef.current = null;
+      duckRef.current = null;
+      faderRef.current = null;
+    };
+  }, [stream, config.enabled]);
+
+  // The tab would otherwise keep playing at full level under the ducked copy.
+  // Capture already asks for the setting; this only follows a toggle mid-stream.
+  useEffect(() => {
+    stream?.getAudioTracks().forEach(track => {
+      const current = track.getConstraints() as MediaTrackConstraints & { suppressLocalAudioPlayback?: boolean };
+      if (!!current.suppressLocalAudioPlayback === config.enabled) return;
+      // applyConstraints replaces the whole set, so the capture's own constraints are carried over
+      track.applyConstraints({ ...current, suppressLocalAudioPlayback: config.enabled } as MediaTrackConstraints)
+        .catch(e => console.warn("Could not change local playback of the captured audio", e));
+    });
+  }, [stream, config.enabled]);
+
+  // Duck on speech with the attack time, recover with the release time
+  useEffect(() => {
+    const ctx = ctxRef.current;
+    const duck = duckRef.current;
+    if (!ctx || !duck) return;
+    const target = isInterpreting ? dbToGain(config.duckDb) : 1;
+    const ms = isInterpreting ? config.attackMs : config.releaseMs;
+    duck.gain.cancelScheduledValues(ctx.currentTime);
+    duck.gain.setValueAtTime(duck.gain.value, ctx.currentTime);
+    duck.gain.setTargetAtTime(target, ctx.currentTime, timeConstant(ms));
+  }, [isInterpreting, config.duckDb, config.attackMs, config.releaseMs, config.enabled]);
+
+  useEffect(() => {
+    const ctx = ctxRef.current;
+    const fader = faderRef.current;
+    if (!ctx || !fader) return;
+    fader.gain.setTargetAtTime(config.originalVolume, ctx.currentTime, 0.02);
+  }, [config.originalVolume, config.enabled]);
+}
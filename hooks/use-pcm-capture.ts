@@ -0,0 +1,58 @@
+import { useState, useEffect, useRef } from 'react';
+import { isAudioWorkletSupported, connectStreamWorklet, WorkletGraph } from '../utils/worklets';
+import { PCM_CAPTURE_PROCESSOR_NAME, PCM_CAPTURE_PROCESSOR_SOURCE, PcmBatchMessage } from '../worklets/pcm-capture-processor';
+
+interface UsePcmCaptureProps {
+  // Pass null to stop capturing
+  stream: MediaStream | null;
+  // Mono Float32 batches at the context's native sample rate
+  onSamples: (samples: Float32Array, sampleRate: number) => void;
+}
+
+// Pulls raw PCM off a MediaStream through an AudioWorklet.
+// Unlike MediaRecorder timeslices, every batch is independently usable.
+export function usePcmCapture({ stream, onSamples }: UsePcmCaptureProps) {
+  const [isActive, setIsActive] = useState(false);
+  // Set when the worklet could not be started for the current stream
+  const [error, setError] = useState<string | null>(null);
+  const onSamplesRef = useRef(onSamples);
+
+  useEffect(() => {
+    onSamplesRef.current = onSamples;
+  }, [onSamples]);
+
+  useEffect(() => {
+    setError(null);
+    if (!stream || !stream.active || stream.getAudioTracks().length === 0 || !isAudioWorkletSupported()) {
+      setIsActive(false);
+      return;
+    }
+
+    let cancelled = false;
+    let graph: WorkletGraph | null = null;
+
+    connectStreamWorklet(stream, PCM_CAPTURE_PROCESSOR_NAME, PCM_CAPTURE_PROCESSOR_SOURCE).then(connected => {
+      if (cancelled) {
+        connected.dispose();
+        return;
+      }
+      graph = connected;
+      connected.node.port.onmessage = (e: MessageEvent<PcmBatchMessage>) => {
+        onSamplesRef.current(e.data.samples, e.data.sampleRate);
+      };
+      setIsActive(true);
+    }).catch(e => {
+      console.warn("PCM capture worklet failed to start", e);
+      if (!cancelled) setError(e?.message || "PCM capture worklet failed to start");
+      setIsActive(false);
+    });
+
+    return () => {
+      cancelled = true;
+      graph?.dispose();
+      setIsActive(false);
+    };
+  }, [stream]);
+
+  return { isActive, error, isSupported: isAudioWorkletSupported() };
+}
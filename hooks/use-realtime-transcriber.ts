@@ -0,0 +1,166 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GoogleGenAI, LiveServerMessage, Modality, Session } from '@google/genai';
+import { float32ToBase64 } from '../utils/audio-utils';
+import { createResampler, Resampler } from '../utils/dsp';
+import { findLastSentenceBoundary } from '../utils/text-segmentation';
+import { usePcmCapture } from './use-pcm-capture';
+
+// Live input expects 16 kHz little-endian 16-bit PCM
+const INPUT_SAMPLE_RATE = 16000;
+const MODEL = 'gemini-live-2.5-flash-preview';
+
+interface UseRealtimeTranscriberProps {
+  // Pass null to close the session
+  stream: MediaStream | null;
+  onTranscript: (text: string) => void;
+  language?: string;
+}
+
+// Streams capture PCM into a Live session and surfaces its input transcription.
+// Same onTranscript contract as useFlashTranscriber: one call per finished sentence.
+export function useRealtimeTranscriber({ stream, onTranscript, language }: UseRealtimeTranscriberProps) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [interimText, setInterimText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  // Bumped by restart() to open a fresh session on the same stream
+  const [attempt, setAttempt] = useState(0);
+
+  const sessionRef = useRef<Session | null>(null);
+  const bufferRef = useRef('');
+  // Keeps filter state across capture batches so their seams stay inaudible
+  const resamplerRef = useRef<{ rate: number; resampler: Resampler } | null>(null);
+  const onTranscriptRef = useRef(onTranscript);
+
+  useEffect(() => {
+    onTranscriptRef.current = onTranscript;
+  }, [onTranscript]);
+
+  // Emit whole sentences as soon as they close; keep the tail as interim text
+  const handleFragment = useCallback((fragment: string, finished: boolean) => {
+    bufferRef.current += fragment;
+    const boundary = finished ? bufferRef.current.length : findLastSentenceBoundary(bufferRef.current);
+
+    if (boundary > 0) {
+      const complete = bufferRef.current.slice(0, boundary).trim();
+      bufferRef.current = bufferRef.current.slice(boundary).trimStart();
+      if (complete) onTranscriptRef.current(complete);
+    }
+    setInterimText(bufferRef.current.trim());
+  }, []);
+
+  useEffect(() => {
+    if (!stream || !stream.active) {
+      setIsConnected(false);
+      // A stopped stream is not a failure; the next one starts clean
+      setError(null);
+      return;
+    }
+
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) {
+      setError('API_KEY not found in environment');
+      return;
+    }
+
+    let cancelled = false;
+    // The socket can fail before connect() resolves
+    let closed = false;
+    bufferRef.current = '';
+    resamplerRef.current = null;
+    setInterimText('');
+    setError(null);
+
+    const ai = new GoogleGenAI({ apiKey });
+    ai.live.connect({
+      model: MODEL,
+      config: {
+        responseModalities: [Modality.TEXT],
+        inputAudioTranscription: {},
+        // We only want the input channel; replies are discarded
+        systemInstruction: `You are a silent transcription relay${language ? ` for ${language} speech` : ''}. Never reply.`,
+      },
+      callbacks: {
+        onopen: () => {
+          console.log('Gemini Live Connected (Transcription Mode)');
+        },
+        onmessage: (message: LiveServerMessage) => {
+          const content = message.serverContent;
+          if (content?.inputTranscription) {
+            handleFragment(content.inputTranscription.text || '', !!content.inputTranscription.finished);
+          }
+          // A completed turn means the speaker paused; flush the partial sentence
+          if (content?.turnComplete && bufferRef.current.trim()) {
+            handleFragment('', true);
+          }
+        },
+        onerror: (err) => {
+          console.error('Gemini Live Transcription Error:', err);
+          closed = true;
+          if (cancelled) return;
+          // Stop feeding a socket that is going away
+          sessionRef.current = null;
+          setIsConnected(false);
+          setError('Realtime transcription error.');
+        },
+        onclose: () => {
+          console.log('Gemini Live Transcription Closed');
+          closed = true;
+          if (cancelled) return;
+          sessionRef.current = null;
+          setIsConnected(false);
+          setError(prev => prev || 'Realtime transcription closed.');
+        }
+      }
+    }).then(session => {
+      if (cancelled || closed) {
+        session.close();
+        return;
+      }
+      sessionRef.current = session;
+      setIsConnected(true);
+    }).catch((e: any) => {
+      console.error('Failed to open realtime transcription:', e);
+      setError(e.message || 'Failed to open realtime transcription.');
+    });
+
+    return () => {
+      cancelled = true;
+      // Whatever was still interim is the last thing the speaker said
+      if (bufferRef.current.trim()) handleFragment('', true);
+      sessionRef.current?.close();
+      sessionRef.current = null;
+      setIsConnected(false);
+      setInterimText('');
+    };
+  }, [stream, language, handleFragment, attempt]);
+
+  const restart = useCallback(() => setAttempt(n => n + 1), []);
+
+  const handleSamples = useCallback((samples: Float32Array, sampleRate: number) => {
+    const session = sessionRef.current;
+    if (!session) return;
+    if (resamplerRef.current?.rate !== sampleRate) {
+      resamplerRef.current = {
+        rate: sampleRate,
+        resampler: createResampler({ inputRate: sampleRate, outputRate: INPUT_SAMPLE_RATE }),
+      };
+    }
+    const [resampled] = resamplerRef.current.resampler.process([samples]);
+    if (resampled.length === 0) return;
+    try {
+      session.sendRealtimeInput({
+        audio: {
+          data: float32ToBase64(resampled),
+          mimeType: `audio/pcm;rate=${INPUT_SAMPLE_RATE}`
+        }
+      });
+    } catch (e) {
+      console.warn('Failed to stream audio to Live session', e);
+    }
+  }, []);
+
+  // Nothing is captured until there is an open session to stream into
+  const capture = usePcmCapture({ stream: isConnected ? stream : null, onSamples: handleSamples });
+
+  return { isTranscribing: isConnected && capture.isActive, interimText, error, restart };
+}
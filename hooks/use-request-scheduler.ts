@@ -0,0 +1,13 @@
+import { useState, useEffect } from 'react';
+import { RequestScheduler, RequestSchedulerStats } from '../utils/request-scheduler';
+
+export function useRequestSchedulerStats(scheduler: RequestScheduler): RequestSchedulerStats {
+  const [stats, setStats] = useState<RequestSchedulerStats>(scheduler.getStats);
+
+  useEffect(() => {
+    setStats(scheduler.getStats());
+    return scheduler.subscribe(setStats);
+  }, [scheduler]);
+
+  return stats;
+}
@@ -0,0 +1,88 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SessionMetadata, TranscriptItem } from '../types';
+import { deleteSession, renameSession, saveSession, saveSessionItems, searchSessions } from '../utils/session-store';
+
+// Throttles streaming updates so a token-by-token translation is not written per token
+const SAVE_INTERVAL = 500;
+
+// Mirrors the current session and its transcript into IndexedDB as they change
+export function usePersistSession(session: SessionMetadata | null, messages: TranscriptItem[]) {
+  const latestRef = useRef({ session, messages });
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const savedSessionRef = useRef<SessionMetadata | null>(null);
+  const savedItemsRef = useRef<Map<string, TranscriptItem>>(new Map());
+
+  const flush = useCallback(async () => {
+    timerRef.current = null;
+    const { session: current, messages: items } = latestRef.current;
+    if (!current) return;
+
+    if (savedSessionRef.current?.id !== current.id) {
+      savedItemsRef.current = new Map();
+    }
+
+    // Items are replaced immutably, so identity tells us what changed
+    const dirty = items.filter(m => savedItemsRef.current.get(m.id) !== m);
+    try {
+      if (savedSessionRef.current !== current) {
+        await saveSession(current);
+        savedSessionRef.current = current;
+      }
+      await saveSessionItems(current.id, dirty);
+      dirty.forEach(m => savedItemsRef.current.set(m.id, m));
+    } catch (e) {
+      console.warn("Failed to persist session", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    latestRef.current = { session, messages };
+    if (!session) return;
+
+    // Write the end of a session right away; the tab may be closing
+    if (session.endedAt) {
+      if (timerRef.current) clearTimeout(timerRef.current);
+      flush();
+    } else if (!timerRef.current) {
+      timerRef.current = setTimeout(flush, SAVE_INTERVAL);
+    }
+  }, [session, messages, flush]);
+
+  useEffect(() => () => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+  }, []);
+}
+
+export function useSessionHistory() {
+  const [sessions, setSessions] = useState<SessionMetadata[]>([]);
+  const [query, setQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSessions(await searchSessions(query));
+    } catch (e) {
+      console.warn("Failed to load session history", e);
+      setSessions([]);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [query]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const rename = useCallback(async (id: string, title: string) => {
+    await renameSession(id, title);
+    await refresh();
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteSession(id);
+    await refresh();
+  }, [refresh]);
+
+  return { sessions, query, setQuery, isLoading, refresh, rename, remove };
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { RecordingFormat, RecordingTrack, SessionRecording, TranscriptItem } from '../types';
+import { ActiveRecording, buildRecordingMarkers, startSessionRecording } from '../utils/session-recorder';
+import { deleteRecording, getSessionRecordings, saveRecording } from '../utils/session-store';
+
+interface UseSessionRecorderProps {
+  // Recordings are stored under this session, next to its transcript
+  sessionId?: string;
+  messages: TranscriptItem[];
+  getOriginalStream: () => MediaStream | null;
+  getInterpretationStream: () => MediaStream | null;
+}
+
+export function useSessionRecorder({ sessionId, messages, getOriginalStream, getInterpretationStream }: UseSessionRecorderProps) {
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+  const [activeTrack, setActiveTrack] = useState<RecordingTrack | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const activeRef = useRef<{ recording: ActiveRecording; sessionId: string } | null>(null);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+
+  useEffect(() => {
+    if (!sessionId) {
+      setRecordings([]);
+      return;
+    }
+    let cancelled = false;
+    getSessionRecordings(sessionId)
+      .then(loaded => {
+        if (!cancelled) setRecordings(loaded);
+      })
+      .catch(e => console.warn("Failed to load session recordings", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (!activeTrack) return;
+    const startedAt = activeRef.current?.recording.startedAt.getTime() ?? Date.now();
+    const timer = setInterval(() => setElapsed((Date.now() - startedAt) / 1000), 1000);
+    return () => clearInterval(timer);
+  }, [activeTrack]);
+
+  const start = useCallback(async (track: RecordingTrack, format: RecordingFormat) => {
+    if (activeRef.current || !sessionId) return;
+    setError(null);
+    try {
+      const recording = await startSessionRecording(track, format, {
+        original: getOriginalStream(),
+        interpretation: getInterpretationStream(),
+      });
+      activeRef.current = { recording, sessionId };
+      setElapsed(0);
+      setActiveTrack(track);
+    } catch (e: any) {
+      console.error("Failed to start recording", e);
+      setError(e.message || "Failed to start recording");
+    }
+  }, [sessionId, getOriginalStream, getInterpretationStream]);
+
+  const stop = useCallback(async () => {
+    const active = activeRef.current;
+    if (!active) return;
+    activeRef.current = null;
+    setActiveTrack(null);
+
+    const { recording, sessionId: ownerId } = active;
+    try {
+      const audio = await recording.stop(duration =>
+        buildRecordingMarkers(messagesRef.current, recording.track, recording.startedAt, duration)
+      );
+      const saved: SessionRecording = {
+        id: `${ownerId}-rec-${recording.startedAt.getTime()}`,
+        sessionId: ownerId,
+        track: recording.track,
+        format: recording.format,
+        startedAt: recording.startedAt,
+        ...audio,
+      };
+      // The list may already show another session by the time encoding finishes
+      if (sessionIdRef.current === ownerId) setRecordings(prev => [...prev, saved]);
+      await saveRecording(saved);
+    } catch (e: any) {
+      console.error("Failed to save recording", e);
+      setError(e.message || "Failed to save recording");
+    }
+  }, []);
+
+  const remove = useCallback(async (id: string) => {
+    setRecordings(prev => prev.filter(r => r.id !== id));
+    try {
+      await deleteRecording(id);
+    } catch (e) {
+      console.warn("Failed to delete recording", e);
+    }
+  }, []);
+
+  // Never leave a recording running behind an unmounted UI
+  useEffect(() => () => {
+    activeRef.current?.recording.stop(() => []);
+  }, []);
+
+  return { recordings, activeTrack, isRecording: activeTrack !== null, elapsed, error, start, stop, remove };
+}
@@ -0,0 +1,68 @@
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { getLanguageCode } from '../utils/languages';
+
+interface UseSpeechSynthesisProps {
+  // Language name as used across the app, e.g. "Spanish"
+  language: string;
+}
+
+const normalizeTag = (tag: string) => tag.replace('_', '-').toLowerCase();
+
+// Exact BCP-47 match first, then any voice for the same primary language.
+// Local voices are preferred: network voices stall when the connection is what failed.
+function pickVoice(voices: SpeechSynthesisVoice[], code: string): SpeechSynthesisVoice | undefined {
+  const tag = normalizeTag(code);
+  const primary = tag.split('-')[0];
+  const byPreference = [...voices].sort((a, b) => Number(b.localService) - Number(a.localService));
+  return byPreference.find(v => normalizeTag(v.lang) === tag)
+    || byPreference.find(v => normalizeTag(v.lang).split('-')[0] === primary);
+}
+
+// Browser speechSynthesis as a TTS engine; same sendText shape as useLiveApi
+export function useSpeechSynthesis({ language }: UseSpeechSynthesisProps) {
+  const isSupported = typeof window !== 'undefined' && 'speechSynthesis' in window;
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+  const [speakingItemId, setSpeakingItemId] = useState<string | undefined>(undefined);
+  // Chrome drops utterances that are garbage collected before they finish
+  const pendingRef = useRef(new Set<SpeechSynthesisUtterance>());
+
+  // Voices load asynchronously in most browsers
+  useEffect(() => {
+    if (!isSupported) return;
+    const loadVoices = () => setVoices(window.speechSynthesis.getVoices());
+    loadVoices();
+    window.speechSynthesis.addEventListener('voiceschanged', loadVoices);
+    return () => {
+      window.speechSynthesis.removeEventListener('voiceschanged', loadVoices);
+    };
+  }, [isSupported]);
+
+  const code = getLanguageCode(language);
+  const voice = useMemo(() => pickVoice(voices, code), [voices, code]);
+
+  const sendText = useCallback(async (text: string, itemId?: string) => {
+    if (!isSupported || !text.trim()) return;
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = code;
+    if (voice) utterance.voice = voice;
+
+    utterance.onstart = () => setSpeakingItemId(itemId);
+    utterance.onend = utterance.onerror = () => {
+      pendingRef.current.delete(utterance);
+      setSpeakingItemId(current => current === itemId ? undefined : current);
+    };
+    pendingRef.current.add(utterance);
+    window.speechSynthesis.speak(utterance);
+  }, [isSupported, code, voice]);
+
+  const stop = useCallback(() => {
+    if (!isSupported) return;
+    pendingRef.current.clear();
+    window.speechSynthesis.cancel();
+    setSpeakingItemId(undefined);
+  }, [isSupported]);
+
+  useEffect(() => () => stop(), [stop]);
+
+  return { isSupported, sendText, stop, speakingItemId, voiceName: voice?.name };
+}
@@ -0,0 +1,12 @@
+import { useState, useEffect, useCallback } from 'react';
+import { translationCache, TranslationCacheStats } from '../utils/translation-cache';
+
+export function useTranslationCache() {
+  const [stats, setStats] = useState<TranslationCacheStats>(translationCache.getStats);
+
+  useEffect(() => translationCache.subscribe(setStats), []);
+
+  const clearCache = useCallback(() => translationCache.clear(), []);
+
+  return { stats, clearCache };
+}
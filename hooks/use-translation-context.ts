@@ -0,0 +1,26 @@
+import { useRef, useCallback } from 'react';
+import { TranslationContextEntry } from '../types';
+
+// Bounded rolling windows of recent source/translation pairs for the current session,
+// one per target language. Kept in a ref so appending does not trigger re-renders mid-pipeline.
+export function useTranslationContext(windowSize: number) {
+  const windowsRef = useRef<Map<string, TranslationContextEntry[]>>(new Map());
+
+  const trim = (entries: TranslationContextEntry[]) =>
+    windowSize > 0 ? entries.slice(-windowSize) : [];
+
+  const getContext = useCallback((targetLanguage: string) =>
+    trim(windowsRef.current.get(targetLanguage) || []), [windowSize]);
+
+  const addEntry = useCallback((targetLanguage: string, entry: TranslationContextEntry) => {
+    if (!entry.source.trim() || !entry.translation.trim()) return;
+    const current = windowsRef.current.get(targetLanguage) || [];
+    windowsRef.current.set(targetLanguage, trim([...current, entry]));
+  }, [windowSize]);
+
+  const resetContext = useCallback(() => {
+    windowsRef.current.clear();
+  }, []);
+
+  return { getContext, addEntry, resetContext };
+}
@@ -0,0 +1,67 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ConnectionState, TtsEngineId, TtsSender } from '../types';
+
+interface TtsEngine {
+  sendText: TtsSender;
+  // Silences the engine and drops whatever it has queued
+  stop: () => void;
+}
+
+interface UseTtsEngineProps {
+  // True while the interpretation pipeline runs, whether or not Live is up
+  active: boolean;
+  live: TtsEngine & { connectionState: ConnectionState };
+  local: TtsEngine & { isSupported: boolean };
+}
+
+// A dropped Live socket gets this long to come back before speech fails over.
+// Inside it, text waits in Live's reconnect buffer (and its buffer policy decides
+// what is replayed); after it, that buffer is flushed and the browser takes over.
+const RECONNECT_GRACE_MS = 5000;
+
+// Chooses which engine voices the primary language. Live is used whenever its
+// session is up, still opening, or briefly reconnecting; once it stays down or
+// fails, speech fails over to the browser until Live is back.
+function selectTtsEngine(
+  active: boolean,
+  liveState: ConnectionState,
+  localSupported: boolean,
+  graceExpired: boolean
+): TtsEngineId | null {
+  if (!active) return null;
+  if (liveState === ConnectionState.CONNECTED || liveState === ConnectionState.CONNECTING) return 'live';
+  if (liveState === ConnectionState.RECONNECTING && !graceExpired) return 'live';
+  if (localSupported) return 'local';
+  // Without a fallback, Live keeps buffering text through a reconnect
+  return liveState === ConnectionState.RECONNECTING ? 'live' : null;
+}
+
+export function useTtsEngine({ active, live, local }: UseTtsEngineProps) {
+  const [graceExpired, setGraceExpired] = useState(false);
+  useEffect(() => {
+    setGraceExpired(false);
+    if (live.connectionState !== ConnectionState.RECONNECTING) return;
+    const timer = setTimeout(() => setGraceExpired(true), RECONNECT_GRACE_MS);
+    return () => clearTimeout(timer);
+  }, [live.connectionState]);
+
+  const engine = selectTtsEngine(active, live.connectionState, local.isSupported, graceExpired);
+
+  // Hand over cleanly: whatever the previous engine still had queued would
+  // otherwise be spoken twice or on top of the new engine
+  const previousEngineRef = useRef(engine);
+  useEffect(() => {
+    const previous = previousEngineRef.current;
+    previousEngineRef.current = engine;
+    if (previous === engine) return;
+    if (previous === 'live') live.stop();
+    if (previous === 'local') local.stop();
+  }, [engine, live.stop, local.stop]);
+
+  const sendText = useCallback(async (text: string, itemId?: string) => {
+    if (engine === 'live') await live.sendText(text, itemId);
+    else if (engine === 'local') await local.sendText(text, itemId);
+  }, [engine, live.sendText, local.sendText]);
+
+  return { engine, sendText };
+}
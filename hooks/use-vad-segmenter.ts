@@ -0,0 +1,86 @@
+import { useState, useEffect, useRef } from 'react';
+import { VadConfig } from '../types';
+import { isAudioWorkletSupported, connectStreamWorklet, WorkletGraph } from '../utils/worklets';
+import { VAD_PROCESSOR_NAME, VAD_PROCESSOR_SOURCE, VadMessage, VadSegmentMessage } from '../worklets/vad-processor';
+
+export const DEFAULT_VAD_CONFIG: VadConfig = {
+  energyThresholdDb: 12,
+  flatnessThreshold: 0.45,
+  hangoverMs: 400,
+  minSegmentMs: 300,
+  maxSegmentMs: 12000,
+  preRollMs: 200,
+};
+
+interface UseVadSegmenterProps {
+  // Pass null to stop segmenting
+  stream: MediaStream | null;
+  config: VadConfig;
+  onSegment: (segment: VadSegmentMessage) => void;
+}
+
+// Splits a live stream into utterances with an AudioWorklet VAD.
+// Only speech is emitted; silence between utterances is never sent anywhere.
+export function useVadSegmenter({ stream, config, onSegment }: UseVadSegmenterProps) {
+  const [isActive, setIsActive] = useState(false);
+  // Set when the worklet could not be started for the current stream
+  const [error, setError] = useState<string | null>(null);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const nodeRef = useRef<AudioWorkletNode | null>(null);
+  const onSegmentRef = useRef(onSegment);
+  const configRef = useRef(config);
+
+  useEffect(() => {
+    onSegmentRef.current = onSegment;
+  }, [onSegment]);
+
+  // Thresholds can be tuned mid-session without rebuilding the graph
+  useEffect(() => {
+    configRef.current = config;
+    nodeRef.current?.port.postMessage({ type: 'config', config });
+  }, [config]);
+
+  useEffect(() => {
+    setError(null);
+    if (!stream || !stream.active || stream.getAudioTracks().length === 0 || !isAudioWorkletSupported()) {
+      setIsActive(false);
+      return;
+    }
+
+    let cancelled = false;
+    let graph: WorkletGraph | null = null;
+
+    connectStreamWorklet(stream, VAD_PROCESSOR_NAME, VAD_PROCESSOR_SOURCE, {
+      processorOptions: { config: configRef.current },
+    }).then(connected => {
+      if (cancelled) {
+        connected.dispose();
+        return;
+      }
+      graph = connected;
+      connected.node.port.onmessage = (e: MessageEvent<VadMessage>) => {
+        if (e.data.type === 'segment') onSegmentRef.current(e.data);
+        else setIsSpeaking(e.data.speaking);
+      };
+      nodeRef.current = connected.node;
+      setIsActive(true);
+    }).catch(e => {
+      console.warn("VAD worklet failed to start", e);
+      if (!cancelled) setError(e?.message || "VAD worklet failed to start");
+      setIsActive(false);
+    });
+
+    return () => {
+      cancelled = true;
+      nodeRef.current = null;
+      // Hand over whatever utterance was in progress before tearing down
+      const closing = graph;
+      closing?.node.port.postMessage({ type: 'flush' });
+      setTimeout(() => closing?.dispose(), 50);
+      setIsActive(false);
+      setIsSpeaking(false);
+    };
+  }, [stream]);
+
+  return { isActive, isSpeaking, error, isSupported: isAudioWorkletSupported() };
+}
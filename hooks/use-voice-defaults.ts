@@ -0,0 +1,36 @@
+import { useState, useEffect, useCallback } from 'react';
+import { VoiceName } from '../types';
+import { DEFAULT_VOICE } from '../utils/voices';
+
+const STORAGE_KEY = 'eburon.voiceDefaults';
+
+function loadDefaults(): Record<string, VoiceName> {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? JSON.parse(raw) : {};
+  } catch (e) {
+    console.warn("Failed to load voice defaults", e);
+    return {};
+  }
+}
+
+// Preferred voice per target language, applied whenever that language is picked
+export function useVoiceDefaults() {
+  const [defaults, setDefaults] = useState<Record<string, VoiceName>>(loadDefaults);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(defaults));
+    } catch (e) {
+      console.warn("Failed to save voice defaults", e);
+    }
+  }, [defaults]);
+
+  const getDefaultVoice = useCallback((language: string) => defaults[language] ?? DEFAULT_VOICE, [defaults]);
+
+  const setDefaultVoice = useCallback((language: string, voice: VoiceName) => {
+    setDefaults(prev => ({ ...prev, [language]: voice }));
+  }, []);
+
+  return { defaults, getDefaultVoice, setDefaultVoice };
+}
@@ -3,6 +3,8 @@ export enum ConnectionState {
   DISCONNECTED = 'DISCONNECTED',
   CONNECTING = 'CONNECTING',
   CONNECTED = 'CONNECTED',
+  // Socket dropped unexpectedly; retrying with backoff while text is buffered
+  RECONNECTING = 'RECONNECTING',
   ERROR = 'ERROR'
 }
 
@@ -12,21 +14,177 @@ export interface AudioConfig {
 }
 
 export interface TranscriptItem {
+  // Monotonic within a session, e.g. "s1k2j3-0007"
   id: string;
-  speaker: 'user' | 'eburon';
+  speaker: 'user' | 'eburon' | 'system';
   text: string;
   timestamp: Date;
   isFinal?: boolean;
+  // Translations point back at the source utterance they were produced from
+  sourceId?: string;
+  sourceLanguage?: string;
+  targetLanguage?: string;
+  // Language the utterance was actually spoken in, when it could be told
+  detectedLanguage?: string;
+  // Targets left untranslated and unspoken because the utterance was already in them
+  skippedTargets?: string[];
+  glossaryViolations?: GlossaryViolation[];
+}
+
+export interface SessionMetadata {
+  id: string;
+  title?: string;
+  startedAt: Date;
+  endedAt?: Date;
+  deviceType?: AudioDevice['type'];
+  deviceLabel?: string;
+  sourceLanguage: string;
+  targetLanguages: string[];
+  transcriptionMode?: TranscriptionMode;
+  zoomLink?: string;
+}
+
+// What a session recording captures; 'mixed' is stereo, original left and interpretation right
+export type RecordingTrack = 'original' | 'interpretation' | 'mixed';
+
+export type RecordingFormat = 'wav' | 'webm';
+
+// A transcript line placed on the recording's own timeline
+export interface RecordingMarker {
+  // Seconds from the start of the recording
+  offset: number;
+  label: string;
+  itemId: string;
+}
+
+export interface SessionRecording {
+  id: string;
+  sessionId: string;
+  track: RecordingTrack;
+  format: RecordingFormat;
+  mimeType: string;
+  // Wall-clock start; TranscriptItem timestamps minus this give positions in the file
+  startedAt: Date;
+  // Seconds
+  duration: number;
+  markers: RecordingMarker[];
+  blob: Blob;
+}
+
+// Stream sources: per-chunk generateContent calls, or one Live session's input transcription
+export type TranscriptionMode = 'chunked' | 'realtime';
+
+export type SegmentationMode = 'fixed' | 'vad';
+
+export interface VadConfig {
+  // Frame must be this many dB above the tracked noise floor to count as speech
+  energyThresholdDb: number;
+  // Spectral flatness above this (0 = tonal, 1 = white noise) is treated as noise
+  flatnessThreshold: number;
+  // Silence tolerated inside an utterance before it is closed
+  hangoverMs: number;
+  // Shorter bursts are discarded as clicks/noise
+  minSegmentMs: number;
+  // Long monologues are cut here so transcription is not delayed indefinitely
+  maxSegmentMs: number;
+  // Audio kept from before speech onset so first syllables are not clipped
+  preRollMs: number;
+}
+
+// Local monitor of the captured audio with the interpretation on top
+export interface MonitorMixConfig {
+  enabled: boolean;
+  // How far the original is lowered while the interpretation speaks
+  duckDb: number;
+  attackMs: number;
+  releaseMs: number;
+  // Faders, 0..1
+  originalVolume: number;
+  interpretationVolume: number;
 }
 
 export interface LiveConfig {
   targetLanguage: string;
 }
 
-export type VoiceName = 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Zephyr';
+export type VoiceName = 'Puck' | 'Charon' | 'Kore' | 'Fenrir' | 'Zephyr' | 'Aoede' | 'Leda' | 'Orus';
+
+// Delivery the TTS session is instructed to use; 'custom' takes a free-form instruction
+export type SpeakingStyle = 'neutral' | 'narrator' | 'orator' | 'custom';
+
+export interface TargetLanguageConfig {
+  language: string;
+  voice: VoiceName;
+  style: SpeakingStyle;
+  // Only used with the 'custom' style
+  customStyle?: string;
+  // Secondary languages only get their own Live TTS session when enabled
+  ttsEnabled: boolean;
+  outputDeviceId?: string;
+}
+
+// Queues a sentence on a TTS session; itemId links it to the translation being spoken
+export type TtsSender = (text: string, itemId?: string) => Promise<void>;
+
+// 'live' is the Gemini Live session, 'local' the browser's speechSynthesis fallback
+export type TtsEngineId = 'live' | 'local';
 
 export interface AudioDevice {
   deviceId: string;
   label: string;
   type: 'microphone' | 'system' | 'zoom' | 'tab' | 'window';
 }
+
+export interface AudioOutputDevice {
+  deviceId: string;
+  label: string;
+}
+
+export interface TranslationContextEntry {
+  source: string;
+  translation: string;
+}
+
+// '*' in either language field matches any language
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  target: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  doNotTranslate: boolean;
+}
+
+export interface GlossaryViolation {
+  entryId: string;
+  term: string;
+  expected: string;
+  rule: 'term' | 'do-not-translate';
+}
+
+export interface TranslationRequest {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Preceding source/translation pairs from the same session, oldest first
+  context?: TranslationContextEntry[];
+  // Glossary entries applicable to this language pair
+  glossary?: GlossaryEntry[];
+}
+
+export interface TranslationProviderCapabilities {
+  // Languages the provider can target. 'all' means no restriction.
+  supportedLanguages: string[] | 'all';
+  streaming: boolean;
+  requiresApiKey: boolean;
+}
+
+export interface TranslationProvider {
+  id: string;
+  label: string;
+  model: string;
+  capabilities: TranslationProviderCapabilities;
+  isAvailable: () => boolean;
+  translate: (request: TranslationRequest) => Promise<string>;
+  translateStream?: (request: TranslationRequest) => AsyncGenerator<string>;
+}
@@ -0,0 +1,87 @@
+// Decoding and segmentation of recorded audio files for batch transcription
+
+export const FILE_SAMPLE_RATE = 16000;
+
+export interface AudioSegment {
+  // Offsets in seconds from the start of the file
+  start: number;
+  end: number;
+  samples: Float32Array;
+}
+
+// Decodes any format the browser supports (WAV, MP3, WebM, M4A...) and
+// renders it to 16 kHz mono through an OfflineAudioContext.
+export async function decodeAudioFile(file: File, sampleRate = FILE_SAMPLE_RATE): Promise<Float32Array> {
+  const data = await file.arrayBuffer();
+
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const decodeContext = new AudioContextClass();
+  let decoded: AudioBuffer;
+  try {
+    decoded = await decodeContext.decodeAudioData(data);
+  } catch (e) {
+    throw new Error(`Unsupported or corrupt audio file: ${file.name}`);
+  } finally {
+    decodeContext.close();
+  }
+
+  const length = Math.ceil(decoded.duration * sampleRate);
+  const offline = new OfflineAudioContext(1, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = decoded;
+  source.connect(offline.destination); // Channels are down-mixed to mono by the destination
+  source.start();
+  const rendered = await offline.startRendering();
+  return rendered.getChannelData(0);
+}
+
+function frameRms(samples: Float32Array, start: number, length: number): number {
+  let sum = 0;
+  const end = Math.min(samples.length, start + length);
+  for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / Math.max(1, end - start));
+}
+
+// Cuts the audio into ~targetSeconds segments, moving each cut to the quietest
+// 50 ms frame within ±toleranceSeconds so words are not split in half.
+export function segmentAudio(
+  samples: Float32Array,
+  sampleRate = FILE_SAMPLE_RATE,
+  targetSeconds = 12,
+  toleranceSeconds = 3
+): AudioSegment[] {
+  const frame = Math.round(sampleRate * 0.05);
+  const segments: AudioSegment[] = [];
+  let start = 0;
+
+  while (start < samples.length) {
+    let end = start + targetSeconds * sampleRate;
+    if (end + toleranceSeconds * sampleRate >= samples.length) {
+      end = samples.length;
+    } else {
+      const from = end - toleranceSeconds * sampleRate;
+      const to = end + toleranceSeconds * sampleRate;
+      let quietest = Infinity;
+      for (let pos = from; pos < to; pos += frame) {
+        const rms = frameRms(samples, pos, frame);
+        if (rms < quietest) {
+          quietest = rms;
+          end = pos + Math.floor(frame / 2);
+        }
+      }
+    }
+
+    segments.push({
+      start: start / sampleRate,
+      end: end / sampleRate,
+      samples: samples.subarray(start, end),
+    });
+    start = end;
+  }
+  return segments;
+}
+
+// Segments with no audible content are skipped instead of sent for transcription
+export function isSilent(samples: Float32Array, threshold = 0.005): boolean {
+  return frameRms(samples, 0, samples.length) < threshold;
+}
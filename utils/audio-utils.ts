@@ -1,71 +1,28 @@
-// Audio utilities for processing raw PCM data
+// Audio utilities for processing raw PCM data. The conversions themselves live
+// in ./dsp; these wrap them in the shapes the Gemini APIs expect.
+import { base64ToBytes, bytesToBase64, encodeWav, float32ToInt16, int16ToFloat32 } from './dsp';
 
 // Convert Float32Array (Web Audio API standard) to Int16Array (Gemini API standard)
 // and then to base64 string.
 export function float32ToBase64(float32: Float32Array): string {
-  const int16 = new Int16Array(float32.length);
-  for (let i = 0; i < float32.length; i++) {
-    // Clamp values to [-1, 1] and scale to 16-bit integer range
-    const s = Math.max(-1, Math.min(1, float32[i]));
-    int16[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
-  }
-  return arrayBufferToBase64(int16.buffer);
+  return bytesToBase64(new Uint8Array(float32ToInt16([float32]).buffer));
 }
 
 // Convert Base64 string to ArrayBuffer
 export function base64ToArrayBuffer(base64: string): ArrayBuffer {
-  const binaryString = window.atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes.buffer;
+  return base64ToBytes(base64).buffer as ArrayBuffer;
 }
 
-// Helper to encode ArrayBuffer to Base64
-function arrayBufferToBase64(buffer: ArrayBuffer): string {
-  let binary = '';
-  const bytes = new Uint8Array(buffer);
-  const len = bytes.byteLength;
-  for (let i = 0; i < len; i++) {
-    binary += String.fromCharCode(bytes[i]);
-  }
-  return window.btoa(binary);
+// Live API speech arrives as base64 16-bit PCM at 24kHz
+export function decodeLiveAudio(ctx: BaseAudioContext, base64: string): AudioBuffer {
+  const bytes = base64ToBytes(base64);
+  const [samples] = int16ToFloat32(new Int16Array(bytes.buffer, 0, bytes.byteLength >> 1));
+  const audioBuffer = ctx.createBuffer(1, samples.length, 24000);
+  audioBuffer.getChannelData(0).set(samples);
+  return audioBuffer;
 }
 
-// Resample audio to target sample rate (simple linear interpolation)
-// Note: Ideally use a better resampling algorithm or Web Audio API's native resampling via OfflineAudioContext
-export function downsampleBuffer(buffer: Float32Array, inputSampleRate: number, outputSampleRate: number): Float32Array {
-  if (outputSampleRate === inputSampleRate) {
-    return buffer;
-  }
-  const sampleRateRatio = inputSampleRate / outputSampleRate;
-  const newLength = Math.round(buffer.length / sampleRateRatio);
-  const result = new Float32Array(newLength);
-  let offsetResult = 0;
-  let offsetBuffer = 0;
-  
-  while (offsetResult < result.length) {
-    const nextOffsetBuffer = Math.round((offsetResult + 1) * sampleRateRatio);
-    // Use average value of accumulated samples for simple downsampling
-    let accum = 0, count = 0;
-    for (let i = offsetBuffer; i < nextOffsetBuffer && i < buffer.length; i++) {
-      accum += buffer[i];
-      count++;
-    }
-    result[offsetResult] = count > 0 ? accum / count : 0;
-    offsetResult++;
-    offsetBuffer = nextOffsetBuffer;
-  }
-  return result;
-}
-
-export const convertPCM24kToFloat32 = (data: DataView): Float32Array => {
-  const float32 = new Float32Array(data.byteLength / 2);
-  for (let i = 0; i < float32.length; i++) {
-    const int16 = data.getInt16(i * 2, true); // Little endian
-    float32[i] = int16 / 32768.0;
-  }
-  return float32;
+// Mono Float32 samples as a base64 16-bit PCM WAV file
+export function wavToBase64(samples: Float32Array, sampleRate: number): string {
+  return bytesToBase64(new Uint8Array(encodeWav([samples], sampleRate)));
 }
@@ -0,0 +1,230 @@
+import { describe, expect, it } from 'vitest';
+import {
+  base64ToBytes,
+  bytesToBase64,
+  createResampler,
+  createWavHeader,
+  decodeWav,
+  deinterleave,
+  encodeWav,
+  float32ToInt16,
+  int16ToFloat32,
+  interleave,
+  resample,
+} from './dsp';
+
+const sine = (frequency: number, rate: number, length: number, amplitude = 1) =>
+  Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / rate));
+
+// Linear chirp from `from` to `to` Hz over the whole buffer
+const sweep = (from: number, to: number, rate: number, length: number, amplitude = 0.5) => {
+  const duration = length / rate;
+  return Float32Array.from({ length }, (_, i) => {
+    const t = i / rate;
+    return amplitude * Math.sin(2 * Math.PI * (from * t + (to - from) / (2 * duration) * t * t));
+  });
+};
+
+const rms = (samples: Float32Array, from = 0, to = samples.length) => {
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / (to - from));
+};
+
+const maxError = (a: Float32Array, b: Float32Array, from = 0, to = Math.min(a.length, b.length)) => {
+  let max = 0;
+  for (let i = from; i < to; i++) max = Math.max(max, Math.abs(a[i] - b[i]));
+  return max;
+};
+
+const concat = (parts: Float32Array[]) => {
+  const out = new Float32Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+const toDb = (ratio: number) => 20 * Math.log10(ratio);
+
+// Kernel edges are zero-padded, so accuracy is only checked away from them
+const EDGE = 1000;
+
+describe('resample', () => {
+  it('removes content above the new Nyquist instead of folding it back', () => {
+    // 12 kHz would alias to 4 kHz at 16 kHz
+    const out = resample(sine(12000, 48000, 48000), 48000, 16000);
+    expect(toDb(rms(out, EDGE, out.length - EDGE) / Math.SQRT1_2)).toBeLessThan(-80);
+  });
+
+  it('keeps an aliasing-prone sweep quiet above the cutoff', () => {
+    // 8.5-20 kHz at 48 kHz: everything sits above 16 kHz's Nyquist
+    const out = resample(sweep(8500, 20000, 48000, 48000), 48000, 16000);
+    expect(toDb(rms(out, EDGE, out.length - EDGE) / (0.5 * Math.SQRT1_2))).toBeLessThan(-60);
+  });
+
+  it('passes the passband through unchanged when downsampling', () => {
+    const out = resample(sine(1000, 48000, 48000), 48000, 16000);
+    expect(out.length).toBe(16000);
+    expect(maxError(out, sine(1000, 16000, 16000), EDGE, 16000 - EDGE)).toBeLessThan(1e-4);
+  });
+
+  it('interpolates accurately when upsampling by a non-integer ratio', () => {
+    const out = resample(sine(3000, 16000, 16000), 16000, 44100);
+    expect(out.length).toBe(44100);
+    expect(maxError(out, sine(3000, 44100, 44100), EDGE, 44100 - EDGE)).toBeLessThan(1e-4);
+  });
+
+  it('round-trips a sine sweep through 44.1 kHz and back', () => {
+    const original = sweep(100, 15000, 48000, 48000);
+    const back = resample(resample(original, 48000, 44100), 44100, 48000);
+    expect(back.length).toBe(original.length);
+    expect(maxError(back, original, EDGE * 2, original.length - EDGE * 2)).toBeLessThan(1e-3);
+  });
+
+  it('returns the input untouched when the rates match', () => {
+    const input = sine(440, 16000, 100);
+    expect(resample(input, 16000, 16000)).toBe(input);
+  });
+});
+
+describe('createResampler', () => {
+  it('produces the same output streamed in odd-sized blocks as in one pass', () => {
+    const input = sweep(200, 7000, 16000, 16000);
+    const resampler = createResampler({ inputRate: 16000, outputRate: 44100 });
+    const parts: Float32Array[] = [];
+    for (let i = 0; i < input.length; i += 317) parts.push(resampler.process([input.subarray(i, i + 317)])[0]);
+    parts.push(resampler.flush()[0]);
+
+    const streamed = concat(parts);
+    const oneShot = resample(input, 16000, 44100);
+    expect(streamed.length).toBe(oneShot.length);
+    expect(maxError(streamed, oneShot)).toBe(0);
+  });
+
+  it('resamples every channel independently', () => {
+    const left = sine(500, 48000, 4800);
+    const right = sine(2000, 48000, 4800);
+    const resampler = createResampler({ inputRate: 48000, outputRate: 16000, channels: 2 });
+    const head = resampler.process([left, right]);
+    const tail = resampler.flush();
+    const outLeft = concat([head[0], tail[0]]);
+    const outRight = concat([head[1], tail[1]]);
+
+    expect(maxError(outLeft, resample(left, 48000, 16000), 0, 1600)).toBe(0);
+    expect(maxError(outRight, resample(right, 48000, 16000), 0, 1600)).toBe(0);
+  });
+
+  it('starts over after reset', () => {
+    const input = sine(1000, 48000, 4800);
+    const resampler = createResampler({ inputRate: 48000, outputRate: 16000 });
+    const first = resampler.process([input])[0];
+    resampler.reset();
+    const second = resampler.process([input])[0];
+    expect(maxError(first, second)).toBe(0);
+    expect(second.length).toBe(first.length);
+  });
+});
+
+describe('Int16 conversion', () => {
+  it('interleaves channels and round-trips within one quantisation step', () => {
+    const channels = [sine(440, 8000, 257, 0.9), sine(660, 8000, 257, 0.5), sine(880, 8000, 257, 0.1)];
+    const frames = float32ToInt16(channels);
+    expect(frames.length).toBe(257 * 3);
+    expect(frames[1]).toBe(Math.trunc(channels[1][0] * 0x7fff));
+
+    const back = int16ToFloat32(frames, 3);
+    expect(back).toHaveLength(3);
+    back.forEach((channel, c) => expect(maxError(channel, channels[c])).toBeLessThan(2 / 0x8000));
+  });
+
+  it('clips out-of-range samples to full scale', () => {
+    const frames = float32ToInt16([Float32Array.from([2, -2, 1, -1])]);
+    expect(Array.from(frames)).toEqual([0x7fff, -0x8000, 0x7fff, -0x8000]);
+  });
+
+  it('interleaves and deinterleaves Float32 losslessly', () => {
+    const channels = [sine(100, 8000, 50), sine(200, 8000, 50)];
+    const back = deinterleave(interleave(channels), 2);
+    expect(maxError(back[0], channels[0])).toBe(0);
+    expect(maxError(back[1], channels[1])).toBe(0);
+  });
+});
+
+describe('base64', () => {
+  it('round-trips buffers larger than one encoding chunk', () => {
+    const bytes = Uint8Array.from({ length: 200_001 }, (_, i) => (i * 31) & 0xff);
+    const encoded = bytesToBase64(bytes);
+    expect(encoded).toBe(Buffer.from(bytes).toString('base64'));
+    expect(base64ToBytes(encoded)).toEqual(bytes);
+  });
+});
+
+describe('WAV', () => {
+  it('round-trips multi-channel audio through encode and decode', () => {
+    const channels = [sweep(100, 3000, 8000, 1001), sine(880, 8000, 1001)];
+    const decoded = decodeWav(encodeWav(channels, 8000));
+    expect(decoded.sampleRate).toBe(8000);
+    expect(decoded.channels).toHaveLength(2);
+    decoded.channels.forEach((channel, c) => {
+      expect(channel.length).toBe(1001);
+      expect(maxError(channel, channels[c])).toBeLessThan(1e-4);
+    });
+  });
+
+  it('writes a canonical 16-bit PCM header', () => {
+    const view = new DataView(createWavHeader(400, 2, 44100, 20));
+    expect(view.getUint32(4, true)).toBe(36 + 400 + 20);
+    expect(view.getUint16(22, true)).toBe(2);
+    expect(view.getUint32(24, true)).toBe(44100);
+    expect(view.getUint32(28, true)).toBe(44100 * 4);
+    expect(view.getUint16(32, true)).toBe(4);
+    expect(view.getUint32(40, true)).toBe(400);
+  });
+
+  // Minimal RIFF file around raw sample bytes, with an unrelated chunk to skip
+  const buildWav = (format: number, bitsPerSample: number, channelCount: number, data: Uint8Array) => {
+    const bytes = new Uint8Array(12 + 8 + 4 + 24 + 8 + data.length);
+    const view = new DataView(bytes.buffer);
+    const write = (offset: number, text: string) => [...text].forEach((ch, i) => view.setUint8(offset + i, ch.charCodeAt(0)));
+    write(0, 'RIFF');
+    view.setUint32(4, bytes.length - 8, true);
+    write(8, 'WAVE');
+    write(12, 'LIST');
+    view.setUint32(16, 4, true);
+    write(20, 'junk');
+    write(24, 'fmt ');
+    view.setUint32(28, 16, true);
+    view.setUint16(32, format, true);
+    view.setUint16(34, channelCount, true);
+    view.setUint32(36, 16000, true);
+    view.setUint32(40, 16000 * channelCount * bitsPerSample / 8, true);
+    view.setUint16(44, channelCount * bitsPerSample / 8, true);
+    view.setUint16(46, bitsPerSample, true);
+    write(48, 'data');
+    view.setUint32(52, data.length, true);
+    bytes.set(data, 56);
+    return bytes.buffer;
+  };
+
+  it('decodes 24-bit integer PCM', () => {
+    // 0.5 and -0.25 as little-endian 24-bit
+    const data = Uint8Array.from([0x00, 0x00, 0x40, 0x00, 0x00, 0xe0]);
+    const { channels } = decodeWav(buildWav(1, 24, 1, data));
+    expect(Array.from(channels[0])).toEqual([0.5, -0.25]);
+  });
+
+  it('decodes 32-bit float PCM', () => {
+    const samples = Float32Array.from([0.25, -0.75, 0.5, -0.5]);
+    const { channels, sampleRate } = decodeWav(buildWav(3, 32, 2, new Uint8Array(samples.buffer)));
+    expect(sampleRate).toBe(16000);
+    expect(Array.from(channels[0])).toEqual([0.25, 0.5]);
+    expect(Array.from(channels[1])).toEqual([-0.75, -0.5]);
+  });
+
+  it('rejects files that are not WAV', () => {
+    expect(() => decodeWav(new TextEncoder().encode('not a wav file at all').buffer)).toThrow('Not a WAV file');
+  });
+});
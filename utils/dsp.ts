@@ -0,0 +1,366 @@
+// Sample-rate conversion and PCM codecs shared by capture, transcription,
+// playback and recording. Multi-channel audio is planar (one Float32Array per
+// channel) unless a function says it is interleaved.
+
+// --- Resampling ---
+
+export interface ResamplerOptions {
+  inputRate: number;
+  outputRate: number;
+  channels?: number;
+  // Sinc zero crossings on each side of the kernel; more is sharper and slower
+  zeroCrossings?: number;
+  // Kernel phases stored per input sample; positions in between are interpolated
+  phases?: number;
+}
+
+export interface Resampler {
+  // Accepts any block size; returns the output that is fully determined so far
+  process: (input: Float32Array[]) => Float32Array[];
+  // Emits the tail still held back for lookahead, then starts over
+  flush: () => Float32Array[];
+  reset: () => void;
+}
+
+// Passband edge as a fraction of the lower Nyquist; the rest is transition band
+const ROLLOFF = 0.92;
+const KAISER_BETA = 9;
+
+// Zeroth-order modified Bessel function of the first kind (series expansion)
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  const quarterSquare = (x * x) / 4;
+  for (let k = 1; k < 50; k++) {
+    term *= quarterSquare / (k * k);
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+// Kaiser-windowed sinc, tabulated per phase so the hot loop only multiplies and adds.
+// Each phase is normalised to unity DC gain.
+function buildKernelTable(cutoff: number, halfWidth: number, zeroCrossings: number, phases: number): Float32Array {
+  const taps = 2 * halfWidth;
+  const table = new Float32Array((phases + 1) * taps);
+  const i0Beta = besselI0(KAISER_BETA);
+  const span = zeroCrossings / cutoff;
+
+  for (let p = 0; p <= phases; p++) {
+    const frac = p / phases;
+    let sum = 0;
+    for (let j = 0; j < taps; j++) {
+      // Distance from the output position to input sample (j - halfWidth + 1)
+      const x = j - halfWidth + 1 - frac;
+      const u = x / span;
+      let value = 0;
+      if (Math.abs(u) < 1) {
+        const t = Math.PI * cutoff * x;
+        const sinc = t === 0 ? 1 : Math.sin(t) / t;
+        value = cutoff * sinc * besselI0(KAISER_BETA * Math.sqrt(1 - u * u)) / i0Beta;
+      }
+      table[p * taps + j] = value;
+      sum += value;
+    }
+    for (let j = 0; j < taps; j++) table[p * taps + j] /= sum;
+  }
+  return table;
+}
+
+// Streaming windowed-sinc resampler for any rate ratio, up or down. The kernel
+// is stretched when downsampling so it also acts as the anti-aliasing filter.
+// Output n is aligned with input time n * inputRate / outputRate; it is emitted
+// once enough input has arrived to fill the kernel, and flush() emits the rest.
+export function createResampler({
+  inputRate,
+  outputRate,
+  channels = 1,
+  zeroCrossings = 16,
+  phases = 256,
+}: ResamplerOptions): Resampler {
+  if (inputRate === outputRate) {
+    return {
+      process: input => input.map(samples => samples.slice()),
+      flush: () => Array.from({ length: channels }, () => new Float32Array(0)),
+      reset: () => {},
+    };
+  }
+
+  const cutoff = Math.min(1, outputRate / inputRate) * ROLLOFF;
+  const halfWidth = Math.ceil(zeroCrossings / cutoff);
+  const taps = 2 * halfWidth;
+  const table = buildKernelTable(cutoff, halfWidth, zeroCrossings, phases);
+
+  // buffers[c][0] is padded input sample `bufferStart`; the first halfWidth padded
+  // samples are leading silence so output 0 sits on real input sample 0
+  let buffers: Float32Array[];
+  let bufferStart: number;
+  let received: number;
+  let produced: number;
+
+  const reset = () => {
+    buffers = Array.from({ length: channels }, () => new Float32Array(halfWidth));
+    bufferStart = 0;
+    received = 0;
+    produced = 0;
+  };
+  reset();
+
+  const append = (input: Float32Array[]) => {
+    buffers = buffers.map((buffer, c) => {
+      const samples = input[c] ?? new Float32Array(input[0]?.length ?? 0);
+      const joined = new Float32Array(buffer.length + samples.length);
+      joined.set(buffer);
+      joined.set(samples, buffer.length);
+      return joined;
+    });
+  };
+
+  // Renders outputs up to `limit` (exclusive) that the buffer can fully support
+  const render = (limit: number): Float32Array[] => {
+    const available = bufferStart + buffers[0].length;
+    const out: number[][] = buffers.map(() => []);
+
+    while (produced < limit) {
+      // Exact integer arithmetic keeps long streams from drifting
+      const numerator = produced * inputRate;
+      const whole = Math.floor(numerator / outputRate);
+      const position = halfWidth + whole;
+      if (position + halfWidth >= available) break;
+
+      const phase = ((numerator - whole * outputRate) / outputRate) * phases;
+      const p = Math.floor(phase);
+      const blend = phase - p;
+      const row0 = p * taps;
+      const row1 = row0 + taps;
+      const first = position - halfWidth + 1 - bufferStart;
+
+      for (let c = 0; c < buffers.length; c++) {
+        const buffer = buffers[c];
+        let acc = 0;
+        for (let j = 0; j < taps; j++) {
+          const k0 = table[row0 + j];
+          acc += buffer[first + j] * (k0 + blend * (table[row1 + j] - k0));
+        }
+        out[c].push(acc);
+      }
+      produced++;
+    }
+
+    // Drop input no future output can reach
+    const keepFrom = Math.floor((produced * inputRate) / outputRate) + 1;
+    if (keepFrom > bufferStart) {
+      const drop = Math.min(keepFrom - bufferStart, buffers[0].length);
+      buffers = buffers.map(buffer => buffer.slice(drop));
+      bufferStart += drop;
+    }
+    return out.map(samples => Float32Array.from(samples));
+  };
+
+  const expectedOutputs = () => Math.ceil((received * outputRate) / inputRate);
+
+  return {
+    process(input) {
+      if (!input[0] || input[0].length === 0) return buffers.map(() => new Float32Array(0));
+      append(input);
+      received += input[0].length;
+      return render(expectedOutputs());
+    },
+    flush() {
+      append(Array.from({ length: channels }, () => new Float32Array(taps + 1)));
+      const out = render(expectedOutputs());
+      reset();
+      return out;
+    },
+    reset,
+  };
+}
+
+// One-shot resample of a mono buffer; the output has round(length * ratio) samples
+export function resample(samples: Float32Array, inputRate: number, outputRate: number): Float32Array {
+  if (inputRate === outputRate) return samples;
+  const resampler = createResampler({ inputRate, outputRate });
+  const head = resampler.process([samples])[0];
+  const tail = resampler.flush()[0];
+  const result = new Float32Array(Math.round((samples.length * outputRate) / inputRate));
+  result.set(head.subarray(0, result.length));
+  if (head.length < result.length) result.set(tail.subarray(0, result.length - head.length), head.length);
+  return result;
+}
+
+// --- Sample format conversion ---
+
+const toInt16 = (sample: number) => {
+  const s = Math.max(-1, Math.min(1, sample));
+  return s < 0 ? s * 0x8000 : s * 0x7fff;
+};
+
+// Planar Float32 channels -> interleaved 16-bit frames
+export function float32ToInt16(channels: Float32Array[]): Int16Array {
+  const count = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const out = new Int16Array(length * count);
+  for (let c = 0; c < count; c++) {
+    const channel = channels[c];
+    for (let i = 0; i < length; i++) out[i * count + c] = toInt16(channel[i]);
+  }
+  return out;
+}
+
+// Interleaved 16-bit frames -> planar Float32 channels
+export function int16ToFloat32(frames: Int16Array, channelCount = 1): Float32Array[] {
+  const length = Math.floor(frames.length / channelCount);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(length));
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < channelCount; c++) channels[c][i] = frames[i * channelCount + c] / 0x8000;
+  }
+  return channels;
+}
+
+export function interleave(channels: Float32Array[]): Float32Array {
+  const count = channels.length;
+  const length = channels[0]?.length ?? 0;
+  const out = new Float32Array(length * count);
+  for (let c = 0; c < count; c++) {
+    for (let i = 0; i < length; i++) out[i * count + c] = channels[c][i];
+  }
+  return out;
+}
+
+export function deinterleave(frames: Float32Array, channelCount: number): Float32Array[] {
+  const length = Math.floor(frames.length / channelCount);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(length));
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < channelCount; c++) channels[c][i] = frames[i * channelCount + c];
+  }
+  return channels;
+}
+
+// --- Base64 ---
+
+// String.fromCharCode takes its bytes as arguments; larger chunks overflow the call stack
+const BASE64_CHUNK = 0x8000;
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  const parts: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    parts.push(String.fromCharCode.apply(null, bytes.subarray(i, i + BASE64_CHUNK) as unknown as number[]));
+  }
+  return btoa(parts.join(''));
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// --- WAV ---
+
+export interface DecodedWav {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+};
+
+const readString = (view: DataView, offset: number, length: number) => {
+  let value = '';
+  for (let i = 0; i < length; i++) value += String.fromCharCode(view.getUint8(offset + i));
+  return value;
+};
+
+// 44-byte header of a 16-bit PCM WAV. `trailingBytes` counts chunks written after
+// the data (e.g. cue markers) so the RIFF size stays correct.
+export function createWavHeader(dataBytes: number, channelCount: number, sampleRate: number, trailingBytes = 0): ArrayBuffer {
+  const view = new DataView(new ArrayBuffer(44));
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataBytes + (dataBytes % 2) + trailingBytes, true);
+  writeString(view, 8, 'WAVE');
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // Format: PCM
+  view.setUint16(22, channelCount, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channelCount * 2, true); // Byte rate
+  view.setUint16(32, channelCount * 2, true); // Block align
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataBytes, true);
+  return view.buffer;
+}
+
+// Planar Float32 channels -> self-contained 16-bit PCM WAV file
+export function encodeWav(channels: Float32Array[], sampleRate: number): ArrayBuffer {
+  const frames = float32ToInt16(channels);
+  const buffer = new Uint8Array(44 + frames.byteLength);
+  buffer.set(new Uint8Array(createWavHeader(frames.byteLength, channels.length, sampleRate)), 0);
+  // WAV is little-endian, as is every platform browsers run on
+  buffer.set(new Uint8Array(frames.buffer, frames.byteOffset, frames.byteLength), 44);
+  return buffer.buffer;
+}
+
+// Reads integer PCM (8/16/24/32-bit) and IEEE float (32/64-bit) WAV files,
+// including WAVE_FORMAT_EXTENSIBLE. Unknown chunks are skipped.
+export function decodeWav(data: ArrayBuffer): DecodedWav {
+  const view = new DataView(data);
+  if (view.byteLength < 12 || readString(view, 0, 4) !== 'RIFF' || readString(view, 8, 4) !== 'WAVE') {
+    throw new Error('Not a WAV file');
+  }
+
+  let format = 0;
+  let channelCount = 0;
+  let sampleRate = 0;
+  let bitsPerSample = 0;
+  let offset = 12;
+
+  while (offset + 8 <= view.byteLength) {
+    const id = readString(view, offset, 4);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (id === 'fmt ') {
+      format = view.getUint16(body, true);
+      channelCount = view.getUint16(body + 2, true);
+      sampleRate = view.getUint32(body + 4, true);
+      bitsPerSample = view.getUint16(body + 14, true);
+      // Extensible: the real format is the first two bytes of the sub-format GUID
+      if (format === 0xfffe && size >= 26) format = view.getUint16(body + 24, true);
+    } else if (id === 'data') {
+      if (!channelCount) throw new Error('WAV data chunk before fmt chunk');
+      const bytesPerSample = bitsPerSample / 8;
+      const available = Math.min(size, view.byteLength - body);
+      const length = Math.floor(available / (bytesPerSample * channelCount));
+      const channels = Array.from({ length: channelCount }, () => new Float32Array(length));
+
+      const read = (position: number): number => {
+        if (format === 3) return bitsPerSample === 64 ? view.getFloat64(position, true) : view.getFloat32(position, true);
+        switch (bitsPerSample) {
+          case 8: return (view.getUint8(position) - 128) / 128;
+          case 16: return view.getInt16(position, true) / 0x8000;
+          case 24: {
+            const value = view.getUint8(position) | (view.getUint8(position + 1) << 8) | (view.getInt8(position + 2) << 16);
+            return value / 0x800000;
+          }
+          case 32: return view.getInt32(position, true) / 0x80000000;
+          default: throw new Error(`Unsupported WAV bit depth: ${bitsPerSample}`);
+        }
+      };
+      if (format !== 1 && format !== 3) throw new Error(`Unsupported WAV format: ${format}`);
+
+      for (let i = 0; i < length; i++) {
+        for (let c = 0; c < channelCount; c++) {
+          channels[c][i] = read(body + (i * channelCount + c) * bytesPerSample);
+        }
+      }
+      return { sampleRate, channels };
+    }
+    // Chunks are word-aligned
+    offset = body + size + (size % 2);
+  }
+  throw new Error('WAV file has no data chunk');
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { ANY_LANGUAGE, parseGlossaryCsv } from './glossary';
+
+const strip = (entries: ReturnType<typeof parseGlossaryCsv>) => entries.map(({ id, ...rest }) => rest);
+
+describe('parseGlossaryCsv', () => {
+  it('imports source,target rows for the selected pair', () => {
+    expect(strip(parseGlossaryCsv('roadmap,hoja de ruta\nsprint,iteración', 'English', 'Spanish'))).toEqual([
+      { source: 'roadmap', target: 'hoja de ruta', sourceLanguage: 'English', targetLanguage: 'Spanish', doNotTranslate: false },
+      { source: 'sprint', target: 'iteración', sourceLanguage: 'English', targetLanguage: 'Spanish', doNotTranslate: false },
+    ]);
+  });
+
+  it('skips rows that have no target and no do-not-translate marker', () => {
+    const csv = 'source,target,dnt\nroadmap,,\nsprint,iteración,';
+    expect(strip(parseGlossaryCsv(csv, 'English', 'Spanish')).map(e => e.source)).toEqual(['sprint']);
+  });
+
+  it('keeps explicitly marked terms as-is for every target', () => {
+    const csv = 'term,translation,keep\nEburon,,yes';
+    expect(strip(parseGlossaryCsv(csv, 'English', 'Spanish'))).toEqual([
+      { source: 'Eburon', target: 'Eburon', sourceLanguage: 'English', targetLanguage: ANY_LANGUAGE, doNotTranslate: true },
+    ]);
+  });
+
+  it('reads per-row languages from their columns', () => {
+    const csv = 'source,target,source_language,target_language\nFolie,diapositiva,de,es';
+    expect(strip(parseGlossaryCsv(csv, 'English', 'French'))[0]).toMatchObject({ sourceLanguage: 'German', targetLanguage: 'Spanish' });
+  });
+});
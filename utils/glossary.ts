@@ -0,0 +1,226 @@
+import { GlossaryEntry, GlossaryViolation } from '../types';
+import { getLanguageName } from './languages';
+
+export const ANY_LANGUAGE = '*';
+
+export function createGlossaryId(): string {
+  return `gl_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 7)}`;
+}
+
+// Entries that apply when translating from `sourceLanguage` into `targetLanguage`.
+// With 'Auto Detect' the source side is unknown, so any source language matches.
+export function filterGlossary(entries: GlossaryEntry[], sourceLanguage: string, targetLanguage: string): GlossaryEntry[] {
+  return entries.filter(entry => {
+    const sourceMatches = entry.sourceLanguage === ANY_LANGUAGE
+      || sourceLanguage === 'Auto Detect'
+      || entry.sourceLanguage === sourceLanguage;
+    const targetMatches = entry.targetLanguage === ANY_LANGUAGE || entry.targetLanguage === targetLanguage;
+    return sourceMatches && targetMatches;
+  });
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match for space-delimited scripts, plain substring match otherwise (CJK, Thai...)
+export function containsTerm(text: string, term: string): boolean {
+  const needle = term.trim();
+  if (!needle) return false;
+  const spaced = /^[\p{Script=Latin}\p{Script=Cyrillic}\p{Script=Greek}\d]/u.test(needle);
+  if (!spaced) return text.toLowerCase().includes(needle.toLowerCase());
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escapeRegExp(needle)}(?![\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+// Only the entries whose source term actually occurs in the text
+export function findGlossaryMatches(text: string, entries: GlossaryEntry[]): GlossaryEntry[] {
+  return entries.filter(entry => containsTerm(text, entry.source));
+}
+
+// Checks a finished translation against the glossary rules triggered by its source text
+export function validateTranslation(source: string, translation: string, entries: GlossaryEntry[]): GlossaryViolation[] {
+  const violations: GlossaryViolation[] = [];
+
+  for (const entry of findGlossaryMatches(source, entries)) {
+    const expected = entry.doNotTranslate ? entry.source : entry.target;
+    if (!expected.trim() || containsTerm(translation, expected)) continue;
+
+    violations.push({
+      entryId: entry.id,
+      term: entry.source,
+      expected,
+      rule: entry.doNotTranslate ? 'do-not-translate' : 'term',
+    });
+  }
+  return violations;
+}
+
+// --- CSV Import ---
+
+// RFC 4180 style: quoted fields, doubled quotes, commas/semicolons/tabs as separators
+function parseCsvRows(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/)[0] || '';
+  const delimiter = [',', ';', '\t'].reduce((best, d) =>
+    firstLine.split(d).length > firstLine.split(best).length ? d : best, ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+const HEADER_ALIASES: Record<string, string[]> = {
+  source: ['source', 'term', 'source_term', 'original'],
+  target: ['target', 'translation', 'target_term'],
+  sourceLanguage: ['source_language', 'source_lang', 'from'],
+  targetLanguage: ['target_language', 'target_lang', 'to'],
+  doNotTranslate: ['dnt', 'do_not_translate', 'donottranslate', 'keep'],
+};
+
+const TRUTHY = ['1', 'true', 'yes', 'y', 'x', 'dnt'];
+
+// Columns: source,target[,source_language,target_language,dnt] with an optional header row.
+// A truthy dnt column makes a do-not-translate entry; rows with neither a target nor one are skipped.
+export function parseGlossaryCsv(text: string, sourceLanguage: string, targetLanguage: string): GlossaryEntry[] {
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase().replace(/[\s-]+/g, '_'));
+  const columns: Record<string, number> = {};
+  for (const [key, aliases] of Object.entries(HEADER_ALIASES)) {
+    const index = header.findIndex(cell => aliases.includes(cell));
+    if (index >= 0) columns[key] = index;
+  }
+  const hasHeader = columns.source !== undefined;
+  if (!hasHeader) {
+    columns.source = 0;
+    columns.target = 1;
+  }
+
+  const resolveLanguage = (value: string | undefined, fallback: string) => {
+    if (!value || !value.trim()) return fallback;
+    const trimmed = value.trim();
+    return getLanguageName(trimmed) || trimmed;
+  };
+
+  return rows.slice(hasHeader ? 1 : 0).flatMap(row => {
+    const source = (row[columns.source] || '').trim();
+    if (!source) return [];
+    const target = columns.target !== undefined ? (row[columns.target] || '').trim() : '';
+    const flag = columns.doNotTranslate !== undefined ? (row[columns.doNotTranslate] || '').trim().toLowerCase() : '';
+    const doNotTranslate = TRUTHY.includes(flag);
+    if (!target && !doNotTranslate) return [];
+
+    return [{
+      id: createGlossaryId(),
+      source,
+      target: doNotTranslate ? source : target,
+      sourceLanguage: resolveLanguage(row[columns.sourceLanguage], sourceLanguage === 'Auto Detect' ? ANY_LANGUAGE : sourceLanguage),
+      targetLanguage: resolveLanguage(row[columns.targetLanguage], doNotTranslate ? ANY_LANGUAGE : targetLanguage),
+      doNotTranslate,
+    }];
+  });
+}
+
+// --- TBX Import ---
+
+// A concept is kept as-is only when the file says so, e.g.
+// <termNote type="administrativeStatus">doNotTranslate</termNote> or <descrip type="translatable">no</descrip>
+const isDoNotTranslateMarker = (element: Element) => {
+  const type = (element.getAttribute('type') || '').toLowerCase();
+  const value = (element.textContent || '').trim().toLowerCase();
+  const letters = value.replace(/[^a-z]/g, '');
+  if (type === 'administrativestatus') return letters.startsWith('donottranslate') || letters === 'dnt';
+  if (type === 'donottranslate' || type === 'dnt') return TRUTHY.includes(value);
+  if (type === 'translatable') return ['no', 'false', '0'].includes(value);
+  return false;
+};
+
+// Reads TBX v2 (<termEntry>/<langSet>/<tig>) and TBX v3 (<conceptEntry>/<langSec>/<termSec>).
+// Terms in the target language's set become translations for every other language's terms.
+// Concepts with no target-language term are skipped unless marked do-not-translate.
+export function parseGlossaryTbx(xml: string, sourceLanguage: string, targetLanguage: string): GlossaryEntry[] {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid TBX file');
+  }
+
+  const concepts = [
+    ...Array.from(doc.getElementsByTagName('termEntry')),
+    ...Array.from(doc.getElementsByTagName('conceptEntry')),
+  ];
+  const entries: GlossaryEntry[] = [];
+
+  for (const concept of concepts) {
+    const langSets = [
+      ...Array.from(concept.getElementsByTagName('langSet')),
+      ...Array.from(concept.getElementsByTagName('langSec')),
+    ];
+
+    const byLanguage = langSets.map(set => {
+      const code = set.getAttribute('xml:lang') || set.getAttribute('lang') || '';
+      const terms = Array.from(set.getElementsByTagName('term'))
+        .map(t => (t.textContent || '').trim())
+        .filter(Boolean);
+      return { language: getLanguageName(code) || code, terms };
+    }).filter(set => set.terms.length > 0);
+
+    const doNotTranslate = ['termNote', 'descrip', 'admin']
+      .some(tag => Array.from(concept.getElementsByTagName(tag)).some(isDoNotTranslateMarker));
+    const targetSet = byLanguage.find(set => set.language === targetLanguage);
+    if (!targetSet && !doNotTranslate) continue;
+    const sourceSets = byLanguage.filter(set => (doNotTranslate || set !== targetSet)
+      && (sourceLanguage === 'Auto Detect' || set.language === sourceLanguage));
+
+    for (const set of sourceSets) {
+      for (const term of set.terms) {
+        entries.push({
+          id: createGlossaryId(),
+          source: term,
+          target: doNotTranslate ? term : targetSet!.terms[0],
+          sourceLanguage: set.language,
+          targetLanguage: doNotTranslate ? ANY_LANGUAGE : targetLanguage,
+          doNotTranslate,
+        });
+      }
+    }
+  }
+  return entries;
+}
+
+export function parseGlossaryFile(fileName: string, content: string, sourceLanguage: string, targetLanguage: string): GlossaryEntry[] {
+  if (/\.(tbx|xml)$/i.test(fileName)) {
+    return parseGlossaryTbx(content, sourceLanguage, targetLanguage);
+  }
+  return parseGlossaryCsv(content, sourceLanguage, targetLanguage);
+}
@@ -0,0 +1,80 @@
+// Minimal promise wrappers around IndexedDB shared by the persistent stores
+
+const DB_NAME = 'eburon-live';
+const DB_VERSION = 3;
+
+export const STORES = {
+  translations: 'translations',
+  sessions: 'sessions',
+  sessionItems: 'sessionItems',
+  recordings: 'recordings',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORES.translations)) {
+        const store = db.createObjectStore(STORES.translations, { keyPath: 'key' });
+        store.createIndex('lastUsed', 'lastUsed');
+      }
+      if (!db.objectStoreNames.contains(STORES.sessions)) {
+        const store = db.createObjectStore(STORES.sessions, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      }
+      if (!db.objectStoreNames.contains(STORES.sessionItems)) {
+        // Item ids are prefixed with their session id, so they are unique across sessions
+        const store = db.createObjectStore(STORES.sessionItems, { keyPath: 'id' });
+        store.createIndex('sessionId', 'sessionId');
+      }
+      if (!db.objectStoreNames.contains(STORES.recordings)) {
+        const store = db.createObjectStore(STORES.recordings, { keyPath: 'id' });
+        store.createIndex('sessionId', 'sessionId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+}
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T> | Promise<T>
+): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  // Listen before issuing requests so completion can't be missed
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  done.catch(() => { /* surfaced through the request below */ });
+  const result = run(tx.objectStore(storeName));
+  const value = result instanceof IDBRequest ? await requestToPromise(result) : await result;
+  await done;
+  return value;
+}
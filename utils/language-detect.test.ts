@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectHeuristic, isReliableDetection } from './language-detect';
+
+describe('detectHeuristic', () => {
+  it.each([
+    ['今日はいい天気ですね', 'Japanese'],
+    ['회의를 시작하겠습니다', 'Korean'],
+    ['สวัสดีครับ ยินดีต้อนรับ', 'Thai'],
+    ['Καλημέρα σε όλους', 'Greek'],
+    ['Բարի լույս բոլորին', 'Armenian'],
+    ['დილა მშვიდობისა', 'Georgian'],
+  ])('reads %s as %s from its script', (text, language) => {
+    expect(detectHeuristic(text)).toMatchObject({ language, source: 'script' });
+  });
+
+  it('reads kanji with kana as Japanese, not Chinese', () => {
+    expect(detectHeuristic('会議は午後三時に始まります')?.language).toBe('Japanese');
+    expect(detectHeuristic('会议下午三点开始')?.language).toBe('Chinese (Mandarin)');
+  });
+
+  it('tells Cyrillic languages apart only by their own letters', () => {
+    expect(detectHeuristic('Привіт, як справи? Дякую, все добре.')?.language).toBe('Ukrainian');
+    expect(detectHeuristic('Здраво, како сте? Ја сам добро, хвала.')?.language).toBe('Serbian');
+    expect(detectHeuristic('Мы начнём встречу через пять минут.')?.language).toBe('Russian');
+    expect(detectHeuristic('Добър ден, как сте днес')).toBeNull();
+  });
+
+  it('uses function words for Latin-script text', () => {
+    expect(detectHeuristic('We are going to start the meeting now')).toMatchObject({ language: 'English', source: 'wordlist' });
+    expect(detectHeuristic('De la part de la direction, merci à tous')?.language).toBe('French');
+    expect(detectHeuristic('Vamos a empezar la reunión con los resultados')?.language).toBe('Spanish');
+    expect(detectHeuristic('Wir fangen mit der Präsentation an und das ist gut')?.language).toBe('German');
+  });
+
+  it('gives up on text with too little to go on', () => {
+    expect(detectHeuristic('')).toBeNull();
+    expect(detectHeuristic('123 456')).toBeNull();
+    expect(detectHeuristic('Okay')).toBeNull();
+    expect(detectHeuristic('Xylophone zebra quantum')).toBeNull();
+  });
+});
+
+describe('isReliableDetection', () => {
+  it('trusts confident browser detections only', () => {
+    expect(isReliableDetection({ language: 'French', confidence: 0.95, source: 'browser' })).toBe(true);
+    expect(isReliableDetection({ language: 'French', confidence: 0.6, source: 'browser' })).toBe(false);
+    expect(isReliableDetection(null)).toBe(false);
+  });
+
+  it('trusts text written in a script only one language uses', () => {
+    expect(isReliableDetection(detectHeuristic('今日はいい天気ですね'))).toBe(true);
+    expect(isReliableDetection(detectHeuristic('회의를 시작하겠습니다'))).toBe(true);
+    expect(isReliableDetection(detectHeuristic('สวัสดีครับ ยินดีต้อนรับ'))).toBe(true);
+  });
+
+  it('does not trust scripts several languages share', () => {
+    expect(isReliableDetection(detectHeuristic('会议下午三点开始'))).toBe(false);
+    expect(isReliableDetection(detectHeuristic('مرحبا بكم في الاجتماع'))).toBe(false);
+    expect(isReliableDetection(detectHeuristic('नमस्ते सभी को'))).toBe(false);
+    expect(isReliableDetection(detectHeuristic('Мы начнём встречу через пять минут.'))).toBe(false);
+  });
+
+  it('does not trust function-word estimates, however confident', () => {
+    expect(isReliableDetection({ language: 'English', confidence: 1, source: 'wordlist' })).toBe(false);
+    expect(isReliableDetection(detectHeuristic('we are going to start the meeting and it is on the calendar'))).toBe(false);
+  });
+
+  it('does not trust a script hit mixed with much other text', () => {
+    expect(isReliableDetection(detectHeuristic('The Japanese word is 天気 weather'))).toBe(false);
+  });
+});
+
+describe('detectLanguage with the browser detector', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('falls back to the estimate until prepareLanguageDetection has run', async () => {
+    const detect = vi.fn(async () => [{ detectedLanguage: 'fr', confidence: 0.97 }]);
+    vi.stubGlobal('LanguageDetector', { create: vi.fn(async () => ({ detect })) });
+    const { detectLanguage, prepareLanguageDetection } = await import('./language-detect');
+
+    expect(await detectLanguage('Nous commençons la réunion maintenant')).toMatchObject({ source: 'wordlist' });
+    expect(detect).not.toHaveBeenCalled();
+
+    await prepareLanguageDetection();
+    expect(await detectLanguage('Nous commençons la réunion maintenant')).toEqual({ language: 'French', confidence: 0.97, source: 'browser' });
+  });
+
+  it('retries creation on the next start after a failure', async () => {
+    const create = vi.fn()
+      .mockRejectedValueOnce(new Error('Requires a user gesture'))
+      .mockResolvedValue({ detect: async () => [] });
+    vi.stubGlobal('LanguageDetector', { create });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { prepareLanguageDetection } = await import('./language-detect');
+
+    await prepareLanguageDetection();
+    await prepareLanguageDetection();
+    await prepareLanguageDetection();
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
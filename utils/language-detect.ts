@@ -0,0 +1,157 @@
+import { getLanguageName } from './languages';
+
+export interface DetectedLanguage {
+  // Name as used in LANGUAGES, e.g. "French"
+  language: string;
+  // 0..1
+  confidence: number;
+  // The browser's model, the writing system, or the offline function-word estimate
+  source: 'browser' | 'script' | 'wordlist';
+}
+
+// Below this the utterance is treated as undetected rather than guessed at
+const MIN_CONFIDENCE = 0.5;
+// Dropping a target outright needs more than a label does
+const SKIP_CONFIDENCE = 0.9;
+
+// Chrome's built-in detector (Translator/Language Detector APIs); not in lib.dom yet
+interface BrowserLanguageDetector {
+  detect: (text: string) => Promise<{ detectedLanguage: string; confidence: number }[]>;
+}
+interface BrowserLanguageDetectorFactory {
+  create: () => Promise<BrowserLanguageDetector>;
+}
+
+// Set once the model is ready; detection never waits on it
+let browserDetector: BrowserLanguageDetector | null = null;
+let preparing: Promise<void> | null = null;
+
+// Creates the browser detector, downloading its model if the device lacks it.
+// Chrome only starts a download from a user gesture, so this is called when the
+// pipeline or an import starts; until it is ready the offline estimate is used.
+export function prepareLanguageDetection(): Promise<void> {
+  if (!preparing) {
+    const factory = (globalThis as { LanguageDetector?: BrowserLanguageDetectorFactory }).LanguageDetector;
+    if (!factory) return Promise.resolve();
+    preparing = factory.create()
+      .then(detector => { browserDetector = detector; })
+      .catch(e => {
+        console.warn("Browser language detector unavailable", e);
+        // The next start may carry the user activation this one lacked
+        preparing = null;
+      });
+  }
+  return preparing;
+}
+
+// Scripts mostly written by one language. `shared` marks those other supported
+// languages use too (Persian and Urdu in Arabic script, Marathi in Devanagari,
+// Cantonese in Han, Yiddish in Hebrew): a hit there is only a likely guess.
+const SCRIPTS: { pattern: RegExp; language: string; shared?: boolean }[] = [
+  { pattern: /[\uac00-\ud7af\u1100-\u11ff]/g, language: 'Korean' },
+  { pattern: /[\u4e00-\u9fff]/g, language: 'Chinese (Mandarin)', shared: true },
+  { pattern: /[\u0e00-\u0e7f]/g, language: 'Thai' },
+  { pattern: /[\u0370-\u03ff]/g, language: 'Greek' },
+  { pattern: /[\u0590-\u05ff]/g, language: 'Hebrew', shared: true },
+  { pattern: /[\u0600-\u06ff]/g, language: 'Arabic', shared: true },
+  { pattern: /[\u0900-\u097f]/g, language: 'Hindi', shared: true },
+  { pattern: /[\u0980-\u09ff]/g, language: 'Bengali' },
+  { pattern: /[\u0a80-\u0aff]/g, language: 'Gujarati' },
+  { pattern: /[\u0b80-\u0bff]/g, language: 'Tamil' },
+  { pattern: /[\u0c00-\u0c7f]/g, language: 'Telugu' },
+  { pattern: /[\u0c80-\u0cff]/g, language: 'Kannada' },
+  { pattern: /[\u0d00-\u0d7f]/g, language: 'Malayalam' },
+  { pattern: /[\u0530-\u058f]/g, language: 'Armenian' },
+  { pattern: /[\u10a0-\u10ff]/g, language: 'Georgian' },
+];
+
+const KANA = /[\u3040-\u30ff]/;
+const KANA_OR_KANJI = /[\u3040-\u30ff\u4e00-\u9fff]/g;
+const CYRILLIC = /[\u0400-\u04ff]/g;
+// A shared script or a single telltale letter never reaches SKIP_CONFIDENCE
+const GUESS_CONFIDENCE = 0.7;
+
+// Cyrillic is shared by many languages; only letters unique to one of them decide.
+// Anything else (Bulgarian, or Russian without ы/э/ё) stays undetected.
+const CYRILLIC_MARKERS: { pattern: RegExp; language: string }[] = [
+  { pattern: /[\u0456\u0457\u0454\u0491]/i, language: 'Ukrainian' }, // і ї є ґ
+  { pattern: /[\u0458\u0459\u045a\u045b\u0452\u045f]/i, language: 'Serbian' }, // ј љ њ ћ ђ џ
+  { pattern: /[\u0453\u045c\u0455]/i, language: 'Macedonian' }, // ѓ ќ ѕ
+  { pattern: /[\u044b\u044d\u0451]/i, language: 'Russian' }, // ы э ё
+];
+
+// Frequent function words; enough to separate the common Latin-script languages
+const STOPWORDS: Record<string, string[]> = {
+  English: ['the', 'and', 'is', 'are', 'to', 'of', 'in', 'that', 'it', 'you', 'we', 'this', 'for', 'with', 'have', 'was', 'not', 'be', 'on', 'what', 'can', 'do'],
+  Spanish: ['el', 'la', 'los', 'las', 'que', 'de', 'y', 'en', 'es', 'un', 'una', 'por', 'para', 'con', 'no', 'se', 'lo', 'del', 'está', 'pero', 'muy', 'como'],
+  French: ['le', 'la', 'les', 'de', 'et', 'est', 'un', 'une', 'des', 'du', 'au', 'aux', 'à', 'que', 'qui', 'ne', 'pas', 'je', 'nous', 'vous', 'il', 'pour', 'dans', 'sur', 'avec', 'ce', 'c\'est', 'mais', 'part', 'très'],
+  German: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'ich', 'wir', 'sie', 'ein', 'eine', 'zu', 'mit', 'auf', 'für', 'den', 'dem', 'es', 'auch', 'sind', 'haben', 'wie'],
+  Italian: ['il', 'lo', 'la', 'gli', 'che', 'di', 'e', 'è', 'non', 'un', 'una', 'per', 'con', 'sono', 'del', 'della', 'questo', 'anche', 'come', 'ma', 'ci', 'io'],
+  Portuguese: ['o', 'a', 'os', 'as', 'que', 'de', 'e', 'é', 'não', 'um', 'uma', 'para', 'com', 'do', 'da', 'em', 'no', 'na', 'você', 'mas', 'isso', 'está'],
+  Dutch: ['de', 'het', 'een', 'en', 'is', 'van', 'dat', 'niet', 'ik', 'we', 'je', 'op', 'te', 'met', 'voor', 'zijn', 'er', 'maar', 'ook', 'wat', 'dit', 'hebben'],
+};
+
+const STOPWORD_SETS = Object.entries(STOPWORDS).map(([language, words]) => ({ language, words: new Set(words) }));
+
+// Offline fallback: dominant script first, then function-word overlap for Latin text
+export function detectHeuristic(text: string): DetectedLanguage | null {
+  const letters = text.replace(/[^\p{L}]/gu, '');
+  if (!letters) return null;
+
+  if ((text.match(CYRILLIC)?.length ?? 0) / letters.length >= 0.3) {
+    const marker = CYRILLIC_MARKERS.find(({ pattern }) => pattern.test(text));
+    return marker ? { language: marker.language, confidence: GUESS_CONFIDENCE, source: 'script' } : null;
+  }
+
+  // Japanese is mostly kanji; any kana alongside them settles it
+  if (KANA.test(text)) {
+    const share = (text.match(KANA_OR_KANJI)?.length ?? 0) / letters.length;
+    if (share >= 0.3) return { language: 'Japanese', confidence: Math.min(1, share + 0.2), source: 'script' };
+  }
+
+  for (const { pattern, language, shared } of SCRIPTS) {
+    const count = text.match(pattern)?.length ?? 0;
+    if (count / letters.length >= 0.3) {
+      const share = count / letters.length;
+      return { language, confidence: shared ? Math.min(GUESS_CONFIDENCE, share) : Math.min(1, share + 0.2), source: 'script' };
+    }
+  }
+
+  const words = text.toLowerCase().match(/[\p{L}']+/gu) ?? [];
+  if (words.length < 2) return null;
+  const scores = STOPWORD_SETS
+    .map(({ language, words: set }) => ({ language, hits: words.filter(w => set.has(w)).length }))
+    .sort((a, b) => b.hits - a.hits);
+  const [best, runnerUp] = scores;
+  if (best.hits === 0) return null;
+  // Share of the evidence the winner holds, scaled down for thin evidence
+  const confidence = (best.hits - runnerUp.hits / 2) / best.hits * Math.min(1, best.hits / 3);
+  return { language: best.language, confidence, source: 'wordlist' };
+}
+
+// Whether a detection is trustworthy enough to act on (skip a target, steer the
+// translator) rather than just label the utterance: a confident browser model, or
+// text mostly in a script only one language uses. Function words never are.
+export function isReliableDetection(detected: DetectedLanguage | null): detected is DetectedLanguage {
+  return !!detected && detected.source !== 'wordlist' && detected.confidence >= SKIP_CONFIDENCE;
+}
+
+// Detects the language of one utterance. Returns null when it cannot tell,
+// which callers treat as "unknown" rather than as any particular language.
+export async function detectLanguage(text: string): Promise<DetectedLanguage | null> {
+  if (!text.trim()) return null;
+
+  const detector = browserDetector;
+  if (detector) {
+    try {
+      const [top] = await detector.detect(text);
+      const language = top && top.detectedLanguage !== 'und' ? getLanguageName(top.detectedLanguage) : undefined;
+      if (language && top.confidence >= MIN_CONFIDENCE) return { language, confidence: top.confidence, source: 'browser' };
+    } catch (e) {
+      console.warn("Language detection failed", e);
+    }
+  }
+
+  const guess = detectHeuristic(text);
+  return guess && guess.confidence >= MIN_CONFIDENCE ? guess : null;
+}
@@ -15,13 +15,13 @@ export const LANGUAGES = [
 ];
 
 const CODE_MAP: Record<string, string> = {
-  'Afrikaans': 'af-ZA', 'Amharic': 'am-ET', 'Arabic': 'ar-SA', 'Bengali': 'bn-IN', 'Bulgarian': 'bg-BG',
+  'Afrikaans': 'af-ZA', 'Amharic': 'am-ET', 'Arabic': 'ar-SA', 'Armenian': 'hy-AM', 'Bengali': 'bn-IN', 'Bulgarian': 'bg-BG',
   'Catalan': 'ca-ES', 'Chinese (Mandarin)': 'zh-CN', 'Chinese (Cantonese)': 'zh-HK', 'Croatian': 'hr-HR',
   'Czech': 'cs-CZ', 'Danish': 'da-DK', 'Dutch': 'nl-NL', 'English': 'en-US', 'Estonian': 'et-EE',
-  'Filipino': 'fil-PH', 'Finnish': 'fi-FI', 'French': 'fr-FR', 'German': 'de-DE', 'Greek': 'el-GR',
+  'Filipino': 'fil-PH', 'Finnish': 'fi-FI', 'French': 'fr-FR', 'Georgian': 'ka-GE', 'German': 'de-DE', 'Greek': 'el-GR',
   'Gujarati': 'gu-IN', 'Hebrew': 'he-IL', 'Hindi': 'hi-IN', 'Hungarian': 'hu-HU', 'Icelandic': 'is-IS',
   'Indonesian': 'id-ID', 'Italian': 'it-IT', 'Japanese': 'ja-JP', 'Kannada': 'kn-IN', 'Korean': 'ko-KR',
-  'Latvian': 'lv-LV', 'Lithuanian': 'lt-LT', 'Malay': 'ms-MY', 'Malayalam': 'ml-IN', 'Marathi': 'mr-IN',
+  'Latvian': 'lv-LV', 'Lithuanian': 'lt-LT', 'Macedonian': 'mk-MK', 'Malay': 'ms-MY', 'Malayalam': 'ml-IN', 'Marathi': 'mr-IN',
   'Norwegian': 'nb-NO', 'Polish': 'pl-PL', 'Portuguese': 'pt-PT', 'Romanian': 'ro-RO', 'Russian': 'ru-RU',
   'Serbian': 'sr-RS', 'Slovak': 'sk-SK', 'Slovenian': 'sl-SI', 'Spanish': 'es-ES', 'Swahili': 'sw-KE',
   'Swedish': 'sv-SE', 'Tagalog (Filipino)': 'tl-PH', 'Tamil': 'ta-IN', 'Telugu': 'te-IN', 'Thai': 'th-TH',
@@ -32,3 +32,14 @@ const CODE_MAP: Record<string, string> = {
 export function getLanguageCode(languageName: string): string {
   return CODE_MAP[languageName] || 'en-US';
 }
+
+// Reverse lookup from a BCP-47 tag (e.g. "fr", "fr-CA", "zh-Hant") to a language name.
+// Matches the full tag first, then the primary subtag.
+export function getLanguageName(code: string): string | undefined {
+  const normalized = code.trim().replace('_', '-').toLowerCase();
+  const entries = Object.entries(CODE_MAP);
+  const exact = entries.find(([, c]) => c.toLowerCase() === normalized);
+  if (exact) return exact[0];
+  const primary = normalized.split('-')[0];
+  return entries.find(([, c]) => c.toLowerCase().split('-')[0] === primary)?.[0];
+}
@@ -0,0 +1,92 @@
+const STORAGE_KEY = 'eburon.outputDevice';
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (sinkId: string) => Promise<void> };
+
+// The primary speech output is remembered so a virtual cable does not have to be re-picked every session
+export function loadOutputDeviceId(): string | undefined {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || undefined;
+  } catch (e) {
+    console.warn("Failed to load output device", e);
+    return undefined;
+  }
+}
+
+export function saveOutputDeviceId(deviceId?: string) {
+  try {
+    if (deviceId) localStorage.setItem(STORAGE_KEY, deviceId);
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.warn("Failed to save output device", e);
+  }
+}
+
+export const canSelectOutputDevice = () =>
+  typeof (AudioContext.prototype as SinkableAudioContext).setSinkId === 'function'
+  || (typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype);
+
+// Plays `input` on a chosen output device. AudioContext.setSinkId is used where
+// available; otherwise the audio is piped through a MediaStream into an <audio>
+// element, which has supported setSinkId for much longer.
+export function createOutputRoute(ctx: AudioContext, input: AudioNode) {
+  const sinkable = ctx as SinkableAudioContext;
+  let element: HTMLAudioElement | null = null;
+  let streamDestination: MediaStreamAudioDestinationNode | null = null;
+  let route: 'context' | 'element' = 'context';
+  // Only the latest device change may rewire the graph
+  let version = 0;
+
+  input.connect(ctx.destination);
+
+  const routeTo = (next: 'context' | 'element') => {
+    if (next === route) return;
+    input.disconnect();
+    input.connect(next === 'context' ? ctx.destination : streamDestination!);
+    route = next;
+    if (next === 'context') element?.pause();
+  };
+
+  const setDevice = async (deviceId?: string) => {
+    const current = ++version;
+    const sinkId = deviceId || '';
+
+    if (sinkable.setSinkId) {
+      await sinkable.setSinkId(sinkId);
+      if (current === version) routeTo('context');
+      return;
+    }
+
+    if (!sinkId) {
+      routeTo('context');
+      return;
+    }
+
+    if (!('setSinkId' in HTMLMediaElement.prototype)) {
+      throw new Error('This browser cannot choose an audio output device');
+    }
+    if (!element) {
+      streamDestination = ctx.createMediaStreamDestination();
+      element = new Audio();
+      element.srcObject = streamDestination.stream;
+    }
+    await element.setSinkId(sinkId);
+    if (current !== version) return;
+    routeTo('element');
+    element.play().catch(e => console.warn("Output element refused to play", e));
+  };
+
+  const dispose = () => {
+    version++;
+    input.disconnect();
+    if (element) {
+      element.pause();
+      element.srcObject = null;
+    }
+    element = null;
+    streamDestination = null;
+  };
+
+  return { setDevice, dispose };
+}
+
+export type OutputRoute = ReturnType<typeof createOutputRoute>;
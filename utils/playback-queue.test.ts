@@ -0,0 +1,212 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createPlaybackQueue, LagPolicy, PlaybackQueue } from './playback-queue';
+
+interface FakeSource {
+  buffer: AudioBuffer | null;
+  playbackRate: { value: number };
+  onended: (() => void) | null;
+  started: boolean;
+  stopped: boolean;
+  connect: () => void;
+  start: () => void;
+  stop: () => void;
+}
+
+// Just enough of an AudioContext for the queue: sources never end on their own
+function createFakeContext() {
+  const sources: FakeSource[] = [];
+  const ctx = {
+    currentTime: 0,
+    state: 'running' as AudioContextState,
+    createBufferSource: () => {
+      const source: FakeSource = {
+        buffer: null,
+        playbackRate: { value: 1 },
+        onended: null,
+        started: false,
+        stopped: false,
+        connect: () => {},
+        start: () => { source.started = true; },
+        stop: () => { source.stopped = true; },
+      };
+      sources.push(source);
+      return source;
+    },
+    suspend: async () => { ctx.state = 'suspended'; },
+    resume: async () => { ctx.state = 'running'; },
+  };
+  // Finishes every source that is playing, as if its audio had run out
+  const endAll = () => sources.filter(s => s.started && !s.stopped).forEach(s => {
+    s.stopped = true;
+    s.onended?.();
+  });
+  return { ctx: ctx as unknown as AudioContext, sources, endAll };
+}
+
+const chunk = (duration = 1) => ({ duration } as AudioBuffer);
+
+describe('createPlaybackQueue', () => {
+  let fake: ReturnType<typeof createFakeContext>;
+  let dispatched: string[];
+  let accept: boolean;
+  let queue: PlaybackQueue;
+
+  const create = (maxLagSeconds = 10, lagPolicy: LagPolicy = 'drop-oldest') => {
+    queue = createPlaybackQueue({
+      ctx: fake.ctx,
+      output: {} as AudioNode,
+      dispatch: text => {
+        if (!accept) return false;
+        dispatched.push(text);
+        return true;
+      },
+      maxLagSeconds,
+      lagPolicy,
+    });
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    fake = createFakeContext();
+    dispatched = [];
+    accept = true;
+    create();
+  });
+
+  afterEach(() => {
+    queue.dispose();
+    vi.useRealTimers();
+  });
+
+  it('dispatches one turn at a time', () => {
+    queue.enqueue('one', 'a');
+    queue.enqueue('two', 'b');
+    expect(dispatched).toEqual(['one']);
+
+    queue.appendAudio(chunk());
+    queue.completeTurn();
+    expect(dispatched).toEqual(['one', 'two']);
+    expect(queue.getState()).toMatchObject({ queued: 2, speaking: true, activeItemId: 'a' });
+  });
+
+  it('plays audio for the head utterance and moves on when it ends', () => {
+    queue.enqueue('one', 'a');
+    queue.appendAudio(chunk());
+    queue.completeTurn();
+    queue.enqueue('two', 'b');
+    queue.appendAudio(chunk());
+    expect(fake.sources.filter(s => s.started)).toHaveLength(1);
+
+    fake.endAll();
+    expect(fake.sources.filter(s => s.started)).toHaveLength(2);
+    expect(queue.getState().activeItemId).toBe('b');
+  });
+
+  it('retries dispatch once the session accepts text again', () => {
+    accept = false;
+    queue.enqueue('one');
+    expect(dispatched).toEqual([]);
+    accept = true;
+    queue.dispatchNext();
+    expect(dispatched).toEqual(['one']);
+  });
+
+  it('skips the utterance being spoken', () => {
+    queue.enqueue('one', 'a');
+    queue.appendAudio(chunk());
+    queue.completeTurn();
+    queue.enqueue('two', 'b');
+    queue.skip();
+
+    expect(fake.sources[0].stopped).toBe(true);
+    expect(queue.getState()).toMatchObject({ queued: 1, speaking: false });
+    queue.appendAudio(chunk());
+    expect(queue.getState().activeItemId).toBe('b');
+  });
+
+  it('flushes everything and discards audio still arriving for the in-flight turn', () => {
+    queue.enqueue('one');
+    queue.appendAudio(chunk());
+    queue.enqueue('two');
+    queue.flush();
+    expect(queue.getState()).toMatchObject({ queued: 0, speaking: false });
+
+    queue.appendAudio(chunk());
+    expect(fake.sources).toHaveLength(1);
+
+    queue.completeTurn();
+    queue.enqueue('three');
+    expect(dispatched).toEqual(['one', 'three']);
+  });
+
+  it('resends a turn that produced no audio before the session went away', () => {
+    queue.enqueue('one');
+    queue.requeueInFlight();
+    queue.dispatchNext();
+    expect(dispatched).toEqual(['one', 'one']);
+  });
+
+  it('keeps the partial audio of a turn cut off by a disconnect', () => {
+    queue.enqueue('one');
+    queue.appendAudio(chunk());
+    queue.enqueue('two');
+    queue.requeueInFlight();
+    queue.dispatchNext();
+    expect(dispatched).toEqual(['one', 'two']);
+    expect(fake.sources[0].stopped).toBe(false);
+  });
+
+  it('releases a turn whose turnComplete never arrives', () => {
+    queue.enqueue('one');
+    queue.appendAudio(chunk());
+    queue.enqueue('two');
+    vi.advanceTimersByTime(9000);
+    expect(dispatched).toEqual(['one']);
+    vi.advanceTimersByTime(2000);
+    expect(dispatched).toEqual(['one', 'two']);
+    expect(fake.sources[0].stopped).toBe(false);
+  });
+
+  it('drops a silent stalled turn entirely', () => {
+    queue.enqueue('one');
+    vi.advanceTimersByTime(11000);
+    expect(queue.getState().queued).toBe(0);
+  });
+
+  it('skips utterances that waited longer than the max lag', () => {
+    queue.enqueue('one', 'a');
+    queue.appendAudio(chunk(30));
+    queue.completeTurn();
+    queue.enqueue('two', 'b');
+    vi.advanceTimersByTime(11000);
+    // 'one' is being heard and finishes; 'two' never started
+    expect(queue.getState()).toMatchObject({ queued: 1, activeItemId: 'a' });
+  });
+
+  it('keeps queued utterances while paused', () => {
+    queue.enqueue('one', 'a');
+    queue.appendAudio(chunk(30));
+    queue.completeTurn();
+    queue.enqueue('two', 'b');
+    queue.appendAudio(chunk());
+    queue.completeTurn();
+    queue.pause();
+    vi.advanceTimersByTime(60000);
+    expect(queue.getState()).toMatchObject({ paused: true, queued: 2, lag: 0 });
+
+    queue.resume();
+    vi.advanceTimersByTime(1000);
+    expect(queue.getState()).toMatchObject({ paused: false, queued: 2 });
+  });
+
+  it('speeds up instead of dropping under the speed-up policy', () => {
+    queue.dispose();
+    create(10, 'speed-up');
+    queue.enqueue('one');
+    queue.appendAudio(chunk(60));
+    vi.advanceTimersByTime(15000);
+    expect(queue.getState().playbackRate).toBeCloseTo(1.5, 1);
+    expect(queue.getState().queued).toBe(1);
+  });
+});
@@ -0,0 +1,361 @@
+// What to do when spoken output falls too far behind the speaker:
+// 'drop-oldest' skips utterances that are already too old to be useful,
+// 'speed-up' plays faster (pitch rises slightly) until the backlog clears.
+export type LagPolicy = 'drop-oldest' | 'speed-up';
+
+export interface PlaybackState {
+  paused: boolean;
+  // Seconds between an utterance being queued and it being heard
+  lag: number;
+  // Utterances waiting or playing, including the current one
+  queued: number;
+  playbackRate: number;
+  // Audio is scheduled or playing right now (drives ducking of the original)
+  speaking: boolean;
+  // Transcript item of the utterance currently being spoken
+  activeItemId?: string;
+}
+
+interface PlaybackQueueOptions {
+  ctx: AudioContext;
+  // Everything is played through this node (e.g. the interpretation fader)
+  output: AudioNode;
+  // Hands text to the TTS session; returns false if it cannot be sent right now
+  dispatch: (text: string) => boolean;
+  maxLagSeconds?: number;
+  lagPolicy?: LagPolicy;
+}
+
+interface Utterance {
+  itemId?: string;
+  text: string;
+  queuedAt: number;
+  dispatched: boolean;
+  // The TTS turn for this text has completed; no more audio will arrive
+  generated: boolean;
+  // Skipped while its audio was still being generated; remaining audio is discarded
+  dropped: boolean;
+  chunks: AudioBuffer[];
+  scheduled: number;
+  sources: Set<AudioBufferSourceNode>;
+  startedAt?: number;
+  // Dispatch time, then the arrival of each audio chunk; drives the stalled-turn watchdog
+  lastActivityAt?: number;
+}
+
+const MAX_PLAYBACK_RATE = 1.5;
+const LAG_CHECK_INTERVAL = 500;
+// An interrupted turn may or may not be followed by turnComplete; stop waiting after this
+const INTERRUPTED_TURN_TIMEOUT = 1500;
+// A turn that has been silent this long is assumed to have lost its turnComplete
+const STALLED_TURN_TIMEOUT = 10000;
+
+// Ordered queue of spoken utterances. Text is dispatched to the TTS session one
+// turn at a time, so each turn's audio is attributable to the utterance that
+// requested it, and only the head utterance is scheduled on the AudioContext.
+export function createPlaybackQueue({
+  ctx,
+  output,
+  dispatch,
+  maxLagSeconds = 10,
+  lagPolicy = 'drop-oldest',
+}: PlaybackQueueOptions) {
+  let utterances: Utterance[] = [];
+  let paused = false;
+  // Time spent paused does not count towards an utterance's age
+  let pausedAt = 0;
+  let playbackRate = 1;
+  let nextStartTime = 0;
+  let policy = { maxLagSeconds, lagPolicy };
+  const listeners = new Set<(state: PlaybackState) => void>();
+
+  const inFlight = () => utterances.find(u => u.dispatched && !u.generated);
+  const head = () => utterances.find(u => !u.dropped);
+
+  const getState = (): PlaybackState => {
+    const current = head();
+    const now = paused ? pausedAt : Date.now();
+    return {
+      paused,
+      lag: current ? (now - current.queuedAt) / 1000 : 0,
+      queued: utterances.filter(u => !u.dropped).length,
+      playbackRate,
+      speaking: utterances.some(u => u.sources.size > 0),
+      activeItemId: current?.startedAt !== undefined ? current.itemId : undefined,
+    };
+  };
+
+  let lastState: PlaybackState | null = null;
+  // The lag timer ticks constantly; only real changes reach listeners
+  const emit = () => {
+    const state = getState();
+    const roundedLag = Math.round(state.lag * 10) / 10;
+    if (lastState
+      && lastState.paused === state.paused
+      && lastState.queued === state.queued
+      && lastState.playbackRate === state.playbackRate
+      && lastState.speaking === state.speaking
+      && lastState.activeItemId === state.activeItemId
+      && Math.round(lastState.lag * 10) / 10 === roundedLag) return;
+    lastState = state;
+    listeners.forEach(listener => listener(state));
+  };
+
+  const stopSources = (utterance: Utterance) => {
+    utterance.sources.forEach(source => {
+      source.onended = null;
+      try { source.stop(); } catch (e) { /* not started */ }
+    });
+    utterance.sources.clear();
+  };
+
+  const removeTurn = (utterance: Utterance) => {
+    utterance.generated = true;
+    utterances = utterances.filter(u => u !== utterance);
+    dispatchNext();
+    schedule();
+  };
+
+  // Removes an utterance now, or flags it if its TTS turn is still producing audio
+  const discard = (utterance: Utterance) => {
+    stopSources(utterance);
+    if (utterance.dispatched && !utterance.generated) {
+      utterance.dropped = true;
+      utterance.chunks = [];
+    } else {
+      utterances = utterances.filter(u => u !== utterance);
+    }
+  };
+
+  function dispatchNext() {
+    if (inFlight()) return;
+    const next = utterances.find(u => !u.dispatched && !u.dropped);
+    if (next && dispatch(next.text)) {
+      next.dispatched = true;
+      next.lastActivityAt = Date.now();
+    }
+  }
+
+  // Without turnComplete the in-flight turn would block every later dispatch.
+  // Audio it already produced still plays; a turn that produced none is dropped.
+  const releaseStalledTurn = () => {
+    const target = inFlight();
+    if (!target || Date.now() - (target.lastActivityAt ?? target.queuedAt) < STALLED_TURN_TIMEOUT) return;
+    console.warn("TTS turn never completed; moving on");
+    if (target.dropped || target.chunks.length === 0) {
+      removeTurn(target);
+      return;
+    }
+    target.generated = true;
+    dispatchNext();
+    finishIfDone(target);
+    schedule();
+  };
+
+  const finishIfDone = (utterance: Utterance) => {
+    if (utterance.generated && utterance.scheduled === utterance.chunks.length && utterance.sources.size === 0) {
+      utterances = utterances.filter(u => u !== utterance);
+      schedule();
+    }
+  };
+
+  // Schedules whatever audio the head utterance has that is not yet scheduled
+  function schedule() {
+    const current = head();
+    if (current) {
+      if (nextStartTime < ctx.currentTime) nextStartTime = ctx.currentTime;
+      while (current.scheduled < current.chunks.length) {
+        const buffer = current.chunks[current.scheduled++];
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.playbackRate.value = playbackRate;
+        source.connect(output);
+        source.onended = () => {
+          current.sources.delete(source);
+          finishIfDone(current);
+          emit();
+        };
+        source.start(nextStartTime);
+        current.sources.add(source);
+        current.startedAt ??= Date.now();
+        nextStartTime += buffer.duration / playbackRate;
+      }
+      finishIfDone(current);
+    }
+    emit();
+  }
+
+  const applyLagPolicy = () => {
+    // Nothing falls behind while the listener has asked for silence
+    if (paused) return;
+    const now = Date.now();
+    const maxLagMs = policy.maxLagSeconds * 1000;
+
+    if (policy.lagPolicy === 'drop-oldest') {
+      // The utterance being heard finishes; anything stale that has not started is skipped
+      const stale = utterances.filter(u => !u.dropped && u.startedAt === undefined && now - u.queuedAt > maxLagMs);
+      if (stale.length > 0) {
+        stale.forEach(discard);
+        dispatchNext();
+        schedule();
+        return;
+      }
+      playbackRate = 1;
+    } else {
+      const current = head();
+      const lag = current ? now - current.queuedAt : 0;
+      playbackRate = lag <= maxLagMs ? 1 : Math.min(MAX_PLAYBACK_RATE, 1 + (lag - maxLagMs) / maxLagMs);
+    }
+    emit();
+  };
+
+  const lagTimer = setInterval(() => {
+    releaseStalledTurn();
+    applyLagPolicy();
+  }, LAG_CHECK_INTERVAL);
+
+  return {
+    enqueue(text: string, itemId?: string) {
+      utterances.push({
+        itemId,
+        text,
+        queuedAt: Date.now(),
+        dispatched: false,
+        generated: false,
+        dropped: false,
+        chunks: [],
+        scheduled: 0,
+        sources: new Set(),
+      });
+      dispatchNext();
+      emit();
+    },
+
+    // Audio from the TTS session belongs to whichever utterance is in flight
+    appendAudio(buffer: AudioBuffer) {
+      let target = inFlight();
+      if (!target) {
+        // Unsolicited audio (no text in flight): play it rather than lose it
+        target = { text: '', queuedAt: Date.now(), dispatched: true, generated: false, dropped: false, chunks: [], scheduled: 0, sources: new Set() };
+        utterances.push(target);
+      }
+      target.lastActivityAt = Date.now();
+      if (target.dropped) return;
+      target.chunks.push(buffer);
+      if (!paused && ctx.state === 'suspended') ctx.resume();
+      schedule();
+    },
+
+    completeTurn() {
+      const target = inFlight();
+      if (!target) return;
+      target.generated = true;
+      if (target.dropped) utterances = utterances.filter(u => u !== target);
+      dispatchNext();
+      finishIfDone(target);
+      schedule();
+    },
+
+    // The session went away mid-turn: resend text that produced no audio, keep partial audio
+    requeueInFlight() {
+      const target = inFlight();
+      if (!target) return;
+      if (target.chunks.length === 0 && !target.dropped) {
+        target.dispatched = false;
+      } else {
+        target.generated = true;
+        if (target.dropped) utterances = utterances.filter(u => u !== target);
+        finishIfDone(target);
+      }
+    },
+
+    // The server cut the current turn short: silence its audio right away
+    interrupt() {
+      const target = inFlight();
+      if (!target) return;
+      discard(target);
+      nextStartTime = ctx.currentTime;
+      setTimeout(() => {
+        if (utterances.includes(target) && !target.generated) removeTurn(target);
+      }, INTERRUPTED_TURN_TIMEOUT);
+      schedule();
+    },
+
+    // Retries dispatch, e.g. once the session is open again
+    dispatchNext,
+
+    // Skips queued text that waited longer than maxAgeMs without being sent
+    dropUndispatched(maxAgeMs: number) {
+      const cutoff = Date.now() - maxAgeMs;
+      const stale = utterances.filter(u => !u.dispatched && u.queuedAt < cutoff);
+      if (stale.length > 0) console.warn(`Dropped ${stale.length} stale TTS sentence(s)`);
+      stale.forEach(discard);
+      emit();
+    },
+
+    pause() {
+      if (paused) return;
+      paused = true;
+      pausedAt = Date.now();
+      ctx.suspend().catch(() => { /* closed */ });
+      emit();
+    },
+
+    resume() {
+      if (!paused) return;
+      paused = false;
+      const pausedFor = Date.now() - pausedAt;
+      utterances.forEach(u => { u.queuedAt += pausedFor; });
+      ctx.resume().catch(() => { /* closed */ });
+      emit();
+    },
+
+    // Stops the utterance being spoken and moves on to the next one
+    skip() {
+      const current = head();
+      if (!current) return;
+      discard(current);
+      nextStartTime = ctx.currentTime;
+      dispatchNext();
+      schedule();
+    },
+
+    // Silences everything and forgets all queued text ("stop speaking")
+    flush() {
+      [...utterances].forEach(discard);
+      nextStartTime = ctx.currentTime;
+      emit();
+    },
+
+    // Like flush, but for a session that is gone: no turn is left waiting to complete
+    reset() {
+      utterances.forEach(stopSources);
+      utterances = [];
+      nextStartTime = ctx.currentTime;
+      emit();
+    },
+
+    setPolicy(next: { maxLagSeconds: number; lagPolicy: LagPolicy }) {
+      policy = next;
+      applyLagPolicy();
+    },
+
+    subscribe(listener: (state: PlaybackState) => void) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    getState,
+
+    dispose() {
+      clearInterval(lagTimer);
+      utterances.forEach(stopSources);
+      utterances = [];
+      listeners.clear();
+    },
+  };
+}
+
+export type PlaybackQueue = ReturnType<typeof createPlaybackQueue>;
@@ -0,0 +1,84 @@
+import { GoogleGenAI } from "@google/genai";
+import { TranslationProvider, TranslationRequest } from '../../types';
+import { findGlossaryMatches } from '../glossary';
+
+const MODEL = 'gemini-2.5-flash';
+
+function buildContextBlock(context: TranslationRequest['context']): string {
+  if (!context || context.length === 0) return '';
+  const lines = context.map(entry => `      - "${entry.source}" => "${entry.translation}"`).join('\n');
+  return `
+      Conversation so far (for context only, do NOT translate it again):
+${lines}
+      Use it to resolve pronouns, gender agreement and sentences split across fragments.
+`;
+}
+
+// Only terms present in the text are listed to keep the prompt small
+function buildGlossaryBlock(text: string, glossary: TranslationRequest['glossary']): string {
+  const matches = findGlossaryMatches(text, glossary || []);
+  if (matches.length === 0) return '';
+  const lines = matches.map(entry => entry.doNotTranslate
+    ? `      - Keep "${entry.source}" exactly as written (do not translate)`
+    : `      - Translate "${entry.source}" as "${entry.target}"`
+  ).join('\n');
+  return `
+      Glossary (MANDATORY, overrides everything else):
+${lines}
+`;
+}
+
+export function buildTranslationPrompt({ text, sourceLanguage, targetLanguage, context, glossary }: TranslationRequest): string {
+  return `
+      You are a professional translator.
+      Source Language: ${sourceLanguage === 'Auto Detect' ? 'Detect language' : sourceLanguage}
+      Target Language: ${targetLanguage}
+${buildContextBlock(context)}${buildGlossaryBlock(text, glossary)}
+      Task: Translate the following text accurately and naturally.
+      - Maintain the original tone and intent.
+      - Output ONLY the translation.
+      - Do not include "Translation:" or any other labels.
+
+      Text: "${text}"
+    `;
+}
+
+export function createGeminiProvider(): TranslationProvider {
+  // Client is created lazily so the module can load without a key
+  let ai: GoogleGenAI | null = null;
+
+  const getClient = () => {
+    const apiKey = process.env.API_KEY;
+    if (!apiKey) throw new Error('API_KEY not found in environment');
+    if (!ai) ai = new GoogleGenAI({ apiKey });
+    return ai;
+  };
+
+  return {
+    id: 'gemini',
+    label: 'Gemini Flash',
+    model: MODEL,
+    capabilities: {
+      supportedLanguages: 'all',
+      streaming: true,
+      requiresApiKey: true,
+    },
+    isAvailable: () => !!process.env.API_KEY,
+    translate: async (request) => {
+      const response = await getClient().models.generateContent({
+        model: MODEL,
+        contents: buildTranslationPrompt(request),
+      });
+      return response.text?.trim() || '';
+    },
+    translateStream: async function* (request) {
+      const stream = await getClient().models.generateContentStream({
+        model: MODEL,
+        contents: buildTranslationPrompt(request),
+      });
+      for await (const chunk of stream) {
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { createLocalProvider } from './local-provider';
+import { translateText, translateTextStream } from '../translator';
+
+const collect = async (stream: AsyncGenerator<string>) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+describe('createLocalProvider', () => {
+  const provider = createLocalProvider();
+  const request = (text: string, targetLanguage = 'Spanish') => ({ text, sourceLanguage: 'English', targetLanguage });
+
+  it('works without an API key', () => {
+    expect(provider.isAvailable()).toBe(true);
+    expect(provider.capabilities.requiresApiKey).toBe(false);
+  });
+
+  it('looks phrases up regardless of case and punctuation', async () => {
+    expect(await provider.translate(request('Thank you!'))).toBe('gracias');
+    expect(await provider.translate(request('  can you hear me? ', 'German'))).toBe('können Sie mich hören?');
+  });
+
+  it('tags unknown text with the target language', async () => {
+    expect(await provider.translate(request(' Quarterly numbers are up. ', 'French'))).toBe('[French] Quarterly numbers are up.');
+  });
+
+  it('streams word by word and adds up to the full translation', async () => {
+    const chunks: string[] = [];
+    for await (const chunk of provider.translateStream!(request('See you tomorrow', 'Italian'))) chunks.push(chunk);
+    expect(chunks).toEqual(['[Italian] ', 'See ', 'you ', 'tomorrow']);
+  });
+});
+
+describe('translateText through the local provider', () => {
+  it('returns the phrase-book translation', async () => {
+    expect(await translateText('Good morning.', 'English', 'Portuguese', { providerId: 'local', bypassCache: true })).toBe('bom dia');
+  });
+
+  it('streams the same result as the one-shot call', async () => {
+    const options = { providerId: 'local', bypassCache: true };
+    const streamed = await collect(translateTextStream('Next slide please', 'English', 'Spanish', options));
+    expect(streamed).toBe(await translateText('Next slide please', 'English', 'Spanish', options));
+  });
+
+  it('ignores blank input', async () => {
+    expect(await translateText('   ', 'English', 'Spanish', { providerId: 'local' })).toBe('');
+  });
+});
@@ -0,0 +1,41 @@
+import { TranslationProvider } from '../../types';
+
+// Small phrase book for common meeting phrases. Anything not found is echoed
+// back with a language tag so the pipeline stays deterministic offline.
+const PHRASES: Record<string, Record<string, string>> = {
+  'hello': { Spanish: 'hola', French: 'bonjour', German: 'hallo', Japanese: 'こんにちは', Italian: 'ciao', Portuguese: 'olá' },
+  'thank you': { Spanish: 'gracias', French: 'merci', German: 'danke', Japanese: 'ありがとう', Italian: 'grazie', Portuguese: 'obrigado' },
+  'good morning': { Spanish: 'buenos días', French: 'bonjour', German: 'guten Morgen', Japanese: 'おはようございます', Italian: 'buongiorno', Portuguese: 'bom dia' },
+  'can you hear me': { Spanish: '¿me oyes?', French: "vous m'entendez ?", German: 'können Sie mich hören?', Japanese: '聞こえますか', Italian: 'mi senti?', Portuguese: 'você me ouve?' },
+  'next slide': { Spanish: 'siguiente diapositiva', French: 'diapositive suivante', German: 'nächste Folie', Japanese: '次のスライド', Italian: 'prossima diapositiva', Portuguese: 'próximo slide' },
+  'yes': { Spanish: 'sí', French: 'oui', German: 'ja', Japanese: 'はい', Italian: 'sì', Portuguese: 'sim' },
+  'no': { Spanish: 'no', French: 'non', German: 'nein', Japanese: 'いいえ', Italian: 'no', Portuguese: 'não' },
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[.,!?¿¡]/g, '').replace(/\s+/g, ' ').trim();
+
+export function createLocalProvider(): TranslationProvider {
+  const translate: TranslationProvider['translate'] = async ({ text, targetLanguage }) => {
+    const hit = PHRASES[normalize(text)]?.[targetLanguage];
+    if (hit) return hit;
+    return `[${targetLanguage}] ${text.trim()}`;
+  };
+
+  return {
+    id: 'local',
+    label: 'Local (Offline)',
+    model: 'phrasebook-v1',
+    capabilities: {
+      supportedLanguages: 'all',
+      streaming: true,
+      requiresApiKey: false,
+    },
+    isAvailable: () => true,
+    translate,
+    // Emits word by word so streaming UI can be exercised offline
+    translateStream: async function* (request) {
+      const words = (await translate(request)).split(/(?<=\s)/);
+      for (const word of words) yield word;
+    },
+  };
+}
@@ -0,0 +1,175 @@
+export interface RequestSchedulerStats {
+  inFlight: number;
+  queued: number;
+  completed: number;
+  retried: number;
+  // Requests that hit their deadline or failed for good
+  dropped: number;
+}
+
+export interface ScheduleOptions {
+  // Total time allowed, including queueing and retries; overrides the scheduler default
+  deadlineMs?: number;
+}
+
+interface RequestSchedulerOptions {
+  maxInFlight?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  deadlineMs?: number;
+}
+
+interface QueuedRequest {
+  start: () => void;
+}
+
+export class DeadlineExceededError extends Error {
+  constructor(deadlineMs: number) {
+    super(`Request did not complete within ${deadlineMs}ms`);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+// Rate limits and server-side failures are worth another try; bad requests are not
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: number })?.status;
+  if (typeof status === 'number') return status === 429 || status === 408 || status >= 500;
+  const message = String((error as Error)?.message || error);
+  return /\b(429|5\d\d)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|Failed to fetch|NetworkError/i.test(message);
+}
+
+const isRateLimit = (error: unknown) =>
+  (error as { status?: number })?.status === 429 || /\b429\b|RESOURCE_EXHAUSTED/.test(String((error as Error)?.message));
+
+// Full jitter: a random delay up to the exponential cap spreads retries out
+const backoffDelay = (attempt: number, baseDelayMs: number, maxDelayMs: number) =>
+  Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+
+// Runs API calls with a cap on concurrency, exponential backoff on transient
+// errors and an optional deadline. A 429 pauses every queued request, not just
+// the one that hit it.
+export function createRequestScheduler({
+  maxInFlight = 3,
+  maxRetries = 3,
+  baseDelayMs = 500,
+  maxDelayMs = 8000,
+  deadlineMs: defaultDeadlineMs,
+}: RequestSchedulerOptions = {}) {
+  const queue: QueuedRequest[] = [];
+  const listeners = new Set<(stats: RequestSchedulerStats) => void>();
+  let inFlight = 0;
+  let pausedUntil = 0;
+  let pauseTimer: ReturnType<typeof setTimeout> | null = null;
+  let stats: RequestSchedulerStats = { inFlight: 0, queued: 0, completed: 0, retried: 0, dropped: 0 };
+
+  const emit = (patch: Partial<RequestSchedulerStats> = {}) => {
+    stats = { ...stats, ...patch, inFlight, queued: queue.length };
+    listeners.forEach(listener => listener(stats));
+  };
+
+  const pump = () => {
+    const wait = pausedUntil - Date.now();
+    if (wait > 0) {
+      if (!pauseTimer) {
+        pauseTimer = setTimeout(() => {
+          pauseTimer = null;
+          pump();
+        }, wait);
+      }
+      return;
+    }
+    while (inFlight < maxInFlight && queue.length > 0) {
+      inFlight++;
+      queue.shift()!.start();
+    }
+    emit();
+  };
+
+  const schedule = <T>(run: (signal: AbortSignal) => Promise<T>, options: ScheduleOptions = {}): Promise<T> => {
+    const deadlineMs = options.deadlineMs ?? defaultDeadlineMs;
+    const controller = new AbortController();
+
+    return new Promise<T>((resolve, reject) => {
+      let settled = false;
+      let retries = 0;
+      let entry: QueuedRequest | null = null;
+      let deadlineTimer: ReturnType<typeof setTimeout> | null = null;
+
+      const settle = (outcome: 'completed' | 'dropped', finish: () => void) => {
+        if (settled) return;
+        settled = true;
+        if (deadlineTimer) clearTimeout(deadlineTimer);
+        emit({ [outcome]: stats[outcome] + 1 });
+        finish();
+      };
+
+      const enqueue = () => {
+        if (settled) return;
+        entry = { start: runAttempt };
+        queue.push(entry);
+        pump();
+      };
+
+      function runAttempt() {
+        entry = null;
+        if (settled) {
+          inFlight--;
+          pump();
+          return;
+        }
+        run(controller.signal).then(
+          value => {
+            inFlight--;
+            settle('completed', () => resolve(value));
+            pump();
+          },
+          error => {
+            inFlight--;
+            if (!settled && retries < maxRetries && isRetryableError(error)) {
+              const delay = backoffDelay(retries++, baseDelayMs, maxDelayMs);
+              if (isRateLimit(error)) pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+              emit({ retried: stats.retried + 1 });
+              setTimeout(enqueue, delay);
+            } else {
+              settle('dropped', () => reject(error));
+            }
+            pump();
+          }
+        );
+      }
+
+      if (deadlineMs !== undefined) {
+        deadlineTimer = setTimeout(() => {
+          // Still waiting for a slot: give it up so it never starts
+          if (entry) {
+            const index = queue.indexOf(entry);
+            if (index >= 0) queue.splice(index, 1);
+          }
+          controller.abort();
+          settle('dropped', () => reject(new DeadlineExceededError(deadlineMs)));
+        }, deadlineMs);
+      }
+
+      enqueue();
+    });
+  };
+
+  const subscribe = (listener: (stats: RequestSchedulerStats) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  const resetStats = () => emit({ completed: 0, retried: 0, dropped: 0 });
+
+  return { schedule, subscribe, resetStats, getStats: () => stats };
+}
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
+
+// Chunk transcription: a chunk older than this is no longer useful live
+export const transcriptionScheduler = createRequestScheduler({ maxInFlight: 3, deadlineMs: 8000 });
+
+export const translationScheduler = createRequestScheduler({ maxInFlight: 4, deadlineMs: 20000 });
@@ -0,0 +1,242 @@
+import { RecordingFormat, RecordingMarker, RecordingTrack, SessionRecording, TranscriptItem } from '../types';
+import { isAudioWorkletSupported, loadWorkletModule } from './worklets';
+import { downloadFile } from './transcript-export';
+import { createWavHeader } from './dsp';
+import { RECORDER_PROCESSOR_NAME, RECORDER_PROCESSOR_SOURCE, RecorderBatchMessage } from '../worklets/recorder-processor';
+
+const WEBM_MIME_TYPE = 'audio/webm;codecs=opus';
+// WebM keeps the container valid even if the tab dies; a timeslice bounds what is lost
+const WEBM_TIMESLICE_MS = 1000;
+
+interface RecordingSources {
+  // Captured input (microphone, tab, window...)
+  original: MediaStream | null;
+  // Spoken interpretation tapped from the TTS output graph
+  interpretation: MediaStream | null;
+}
+
+export interface RecordedAudio {
+  blob: Blob;
+  mimeType: string;
+  duration: number;
+  markers: RecordingMarker[];
+}
+
+export interface ActiveRecording {
+  track: RecordingTrack;
+  format: RecordingFormat;
+  startedAt: Date;
+  // Markers are embedded as WAV cue points; WebM keeps them only in the stored record
+  stop: (getMarkers: (duration: number) => RecordingMarker[]) => Promise<RecordedAudio>;
+}
+
+export const isWebmRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported(WEBM_MIME_TYPE);
+
+export const getSupportedRecordingFormats = (): RecordingFormat[] => [
+  ...(isWebmRecordingSupported() ? ['webm' as const] : []),
+  ...(isAudioWorkletSupported() ? ['wav' as const] : []),
+];
+
+// Transcript lines that fall inside a recording, relative to its start.
+// Source lines mark the original, translations mark the interpretation.
+export function buildRecordingMarkers(
+  messages: TranscriptItem[],
+  track: RecordingTrack,
+  startedAt: Date,
+  duration: number
+): RecordingMarker[] {
+  const origin = startedAt.getTime();
+  return messages
+    .filter(m => m.text.trim() && (
+      m.speaker === 'user' ? track !== 'interpretation' : m.speaker === 'eburon' && track !== 'original'
+    ))
+    .map(m => ({
+      offset: (m.timestamp.getTime() - origin) / 1000,
+      label: m.speaker === 'eburon' && m.targetLanguage ? `[${m.targetLanguage}] ${m.text.trim()}` : m.text.trim(),
+      itemId: m.id,
+    }))
+    .filter(marker => marker.offset >= 0 && marker.offset <= duration);
+}
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+// 'cue ' points plus an 'adtl' list of labels, which most editors show as markers
+function encodeCueChunks(markers: RecordingMarker[], sampleRate: number): ArrayBuffer[] {
+  if (markers.length === 0) return [];
+  const encoder = new TextEncoder();
+
+  const cue = new DataView(new ArrayBuffer(12 + markers.length * 24));
+  writeString(cue, 0, 'cue ');
+  cue.setUint32(4, 4 + markers.length * 24, true);
+  cue.setUint32(8, markers.length, true);
+  markers.forEach((marker, index) => {
+    const base = 12 + index * 24;
+    const position = Math.round(marker.offset * sampleRate);
+    cue.setUint32(base, index + 1, true); // Cue id
+    cue.setUint32(base + 4, position, true);
+    writeString(cue, base + 8, 'data');
+    cue.setUint32(base + 12, 0, true); // Chunk start
+    cue.setUint32(base + 16, 0, true); // Block start
+    cue.setUint32(base + 20, position, true); // Sample offset
+  });
+
+  const labels = markers.map((marker, index) => {
+    const text = encoder.encode(marker.label);
+    const size = 4 + text.length + 1; // Cue id + NUL-terminated text
+    const label = new DataView(new ArrayBuffer(8 + size + (size % 2)));
+    writeString(label, 0, 'labl');
+    label.setUint32(4, size, true);
+    label.setUint32(8, index + 1, true);
+    new Uint8Array(label.buffer).set(text, 12);
+    return label.buffer;
+  });
+  const labelsSize = labels.reduce((sum, l) => sum + l.byteLength, 0);
+  const list = new DataView(new ArrayBuffer(12));
+  writeString(list, 0, 'LIST');
+  list.setUint32(4, 4 + labelsSize, true);
+  writeString(list, 8, 'adtl');
+
+  return [cue.buffer, list.buffer, ...labels];
+}
+
+// Builds the WAV from its recorded pieces without copying the audio into one buffer
+function encodeWavBlob(chunks: Int16Array[], channels: number, sampleRate: number, markers: RecordingMarker[]): Blob {
+  const dataSize = chunks.reduce((sum, c) => sum + c.byteLength, 0);
+  const cueChunks = encodeCueChunks(markers, sampleRate);
+  const cueSize = cueChunks.reduce((sum, c) => sum + c.byteLength, 0);
+
+  const header = createWavHeader(dataSize, channels, sampleRate, cueSize);
+  const padding = dataSize % 2 ? [new Uint8Array(1)] : [];
+  return new Blob([header, ...chunks, ...padding, ...cueChunks], { type: 'audio/wav' });
+}
+
+// Starts recording one track of the session on its own AudioContext. Both
+// sources are down-mixed to mono first; 'mixed' then places them left and right.
+export async function startSessionRecording(
+  track: RecordingTrack,
+  format: RecordingFormat,
+  { original, interpretation }: RecordingSources
+): Promise<ActiveRecording> {
+  if (track !== 'interpretation' && !original) throw new Error('No captured audio to record');
+  if (track !== 'original' && !interpretation) throw new Error('No interpretation audio to record');
+
+  const ctx = new AudioContext();
+  const sources: MediaStreamAudioSourceNode[] = [];
+  const mono = (stream: MediaStream) => {
+    const source = ctx.createMediaStreamSource(stream);
+    const downmix = ctx.createGain();
+    downmix.channelCount = 1;
+    downmix.channelCountMode = 'explicit';
+    source.connect(downmix);
+    sources.push(source);
+    return downmix;
+  };
+
+  try {
+    let output: AudioNode;
+    let channels = 1;
+    if (track === 'mixed') {
+      const merger = ctx.createChannelMerger(2);
+      mono(original!).connect(merger, 0, 0);
+      mono(interpretation!).connect(merger, 0, 1);
+      output = merger;
+      channels = 2;
+    } else {
+      output = mono(track === 'original' ? original! : interpretation!);
+    }
+
+    const teardown = () => {
+      sources.forEach(source => source.disconnect());
+      ctx.close().catch(() => { /* already closed */ });
+    };
+
+    if (format === 'webm') {
+      const destination = ctx.createMediaStreamDestination();
+      destination.channelCount = channels;
+      output.connect(destination);
+      const recorder = new MediaRecorder(destination.stream, { mimeType: WEBM_MIME_TYPE });
+      const parts: Blob[] = [];
+      recorder.ondataavailable = (e) => {
+        if (e.data.size > 0) parts.push(e.data);
+      };
+      recorder.start(WEBM_TIMESLICE_MS);
+      const startedAt = new Date();
+
+      return {
+        track,
+        format,
+        startedAt,
+        stop: (getMarkers) => new Promise<RecordedAudio>(resolve => {
+          recorder.onstop = () => {
+            teardown();
+            const duration = (Date.now() - startedAt.getTime()) / 1000;
+            resolve({
+              blob: new Blob(parts, { type: recorder.mimeType || WEBM_MIME_TYPE }),
+              mimeType: recorder.mimeType || WEBM_MIME_TYPE,
+              duration,
+              markers: getMarkers(duration),
+            });
+          };
+          recorder.stop();
+        }),
+      };
+    }
+
+    await loadWorkletModule(ctx, RECORDER_PROCESSOR_NAME, RECORDER_PROCESSOR_SOURCE);
+    const node = new AudioWorkletNode(ctx, RECORDER_PROCESSOR_NAME, {
+      channelCount: channels,
+      channelCountMode: 'explicit',
+      numberOfOutputs: 1,
+      processorOptions: { channelCount: channels },
+    });
+    // Pulled through a muted sink so the recording is never played back
+    const sink = ctx.createGain();
+    sink.gain.value = 0;
+    output.connect(node);
+    node.connect(sink);
+    sink.connect(ctx.destination);
+
+    const chunks: Int16Array[] = [];
+    let onFinal: (() => void) | null = null;
+    node.port.onmessage = (e: MessageEvent<RecorderBatchMessage>) => {
+      if (e.data.frames.length > 0) chunks.push(e.data.frames);
+      if (e.data.final) onFinal?.();
+    };
+    const startedAt = new Date();
+
+    return {
+      track,
+      format,
+      startedAt,
+      stop: (getMarkers) => new Promise<RecordedAudio>(resolve => {
+        onFinal = () => {
+          node.port.onmessage = null;
+          teardown();
+          const frames = chunks.reduce((sum, c) => sum + c.length, 0) / channels;
+          const duration = frames / ctx.sampleRate;
+          const markers = getMarkers(duration);
+          resolve({
+            blob: encodeWavBlob(chunks, channels, ctx.sampleRate, markers),
+            mimeType: 'audio/wav',
+            duration,
+            markers,
+          });
+        };
+        node.port.postMessage({ type: 'flush' });
+      }),
+    };
+  } catch (e) {
+    ctx.close().catch(() => { /* already closed */ });
+    throw e;
+  }
+}
+
+export function downloadRecording(recording: SessionRecording) {
+  const stamp = recording.startedAt.toISOString().slice(0, 19).replace(/[:T]/g, '-');
+  downloadFile(`eburon-${stamp}-${recording.track}.${recording.format}`, recording.blob, recording.mimeType);
+}
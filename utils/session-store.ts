@@ -0,0 +1,133 @@
+import { SessionMetadata, SessionRecording, TranscriptItem } from '../types';
+import { STORES, withStore } from './idb';
+import { compareItemIds } from './transcript';
+
+// Transcript items are stored one record per item so streaming updates
+// only rewrite what changed.
+interface StoredSessionItem extends TranscriptItem {
+  sessionId: string;
+}
+
+export async function saveSession(session: SessionMetadata): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', store => store.put(session));
+}
+
+export async function saveSessionItems(sessionId: string, items: TranscriptItem[]): Promise<void> {
+  if (items.length === 0) return;
+  await withStore(STORES.sessionItems, 'readwrite', store => {
+    let last: IDBRequest<IDBValidKey> | undefined;
+    for (const item of items) {
+      last = store.put({ ...item, sessionId } as StoredSessionItem);
+    }
+    return last!;
+  });
+}
+
+export async function listSessions(): Promise<SessionMetadata[]> {
+  const sessions = await withStore<SessionMetadata[]>(STORES.sessions, 'readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime());
+}
+
+async function getSessionItems(sessionId: string): Promise<TranscriptItem[]> {
+  const stored = await withStore<StoredSessionItem[]>(STORES.sessionItems, 'readonly', store =>
+    store.index('sessionId').getAll(sessionId)
+  );
+  return stored
+    .map(({ sessionId: _sessionId, ...item }) => item)
+    .sort((a, b) => compareItemIds(a.id, b.id));
+}
+
+export async function loadSession(id: string): Promise<{ session: SessionMetadata; messages: TranscriptItem[] } | null> {
+  const session = await withStore<SessionMetadata | undefined>(STORES.sessions, 'readonly', store => store.get(id));
+  if (!session) return null;
+  return { session, messages: await getSessionItems(id) };
+}
+
+export async function renameSession(id: string, title: string): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', store => new Promise<void>((resolve, reject) => {
+    const request = store.get(id);
+    request.onsuccess = () => {
+      if (request.result) store.put({ ...request.result, title: title.trim() || undefined });
+      resolve();
+    };
+    request.onerror = () => reject(request.error);
+  }));
+}
+
+// Removes every record of a store that belongs to a session
+function deleteBySession(storeName: string, sessionId: string): Promise<void> {
+  return withStore(storeName, 'readwrite', store => new Promise<void>((resolve, reject) => {
+    const cursorRequest = store.index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve();
+        return;
+      }
+      store.delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  }));
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore(STORES.sessions, 'readwrite', store => store.delete(id));
+  await deleteBySession(STORES.sessionItems, id);
+  await deleteBySession(STORES.recordings, id);
+}
+
+// Recordings live in their own store so listing sessions never loads audio
+export async function saveRecording(recording: SessionRecording): Promise<void> {
+  await withStore(STORES.recordings, 'readwrite', store => store.put(recording));
+}
+
+export async function getSessionRecordings(sessionId: string): Promise<SessionRecording[]> {
+  const recordings = await withStore<SessionRecording[]>(STORES.recordings, 'readonly', store =>
+    store.index('sessionId').getAll(sessionId)
+  );
+  return recordings.sort((a, b) => a.startedAt.getTime() - b.startedAt.getTime());
+}
+
+export async function deleteRecording(id: string): Promise<void> {
+  await withStore(STORES.recordings, 'readwrite', store => store.delete(id));
+}
+
+// Matches session metadata first, then falls back to a scan of transcript text
+export async function searchSessions(query: string): Promise<SessionMetadata[]> {
+  const sessions = await listSessions();
+  const needle = query.trim().toLowerCase();
+  if (!needle) return sessions;
+
+  const metaMatches = new Set(sessions
+    .filter(s => [s.title, s.deviceLabel, s.sourceLanguage, s.zoomLink, ...s.targetLanguages]
+      .some(field => field?.toLowerCase().includes(needle)))
+    .map(s => s.id));
+
+  const textMatches = await withStore(STORES.sessionItems, 'readonly', store => new Promise<Set<string>>((resolve, reject) => {
+    const found = new Set<string>();
+    const cursorRequest = store.openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) {
+        resolve(found);
+        return;
+      }
+      const item = cursor.value as StoredSessionItem;
+      if (!found.has(item.sessionId) && item.text.toLowerCase().includes(needle)) {
+        found.add(item.sessionId);
+      }
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  }));
+
+  return sessions.filter(s => metaMatches.has(s.id) || textMatches.has(s.id));
+}
+
+// The most recent session that never recorded an end time (tab closed or crashed mid-meeting)
+export async function findInterruptedSession(): Promise<{ session: SessionMetadata; messages: TranscriptItem[] } | null> {
+  const latest = (await listSessions())[0];
+  if (!latest || latest.endedAt) return null;
+  return loadSession(latest.id);
+}
@@ -0,0 +1,35 @@
+// Helpers for splitting streamed text on sentence boundaries
+
+const SENTENCE_END = /[.!?。！？…]+["'”’)\]]*(\s+|$)/g;
+
+// Returns the index just past the last complete sentence in `text`,
+// or 0 if no sentence boundary has been seen yet.
+export function findLastSentenceBoundary(text: string): number {
+  let boundary = 0;
+  SENTENCE_END.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(text)) !== null) {
+    // Only count a boundary at the very end once whitespace confirms it
+    if (match.index + match[0].length === text.length && !match[1]) continue;
+    boundary = match.index + match[0].length;
+  }
+  return boundary;
+}
+
+// Splits text into sentences, each with its closing punctuation. Text after the
+// last boundary comes back as a final, unterminated entry.
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  let start = 0;
+  SENTENCE_END.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SENTENCE_END.exec(text)) !== null) {
+    const end = match.index + match[0].length;
+    const sentence = text.slice(start, end).trim();
+    if (sentence) sentences.push(sentence);
+    start = end;
+  }
+  const rest = text.slice(start).trim();
+  if (rest) sentences.push(rest);
+  return sentences;
+}
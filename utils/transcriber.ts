@@ -0,0 +1,46 @@
+import { GoogleGenAI } from "@google/genai";
+
+const MODEL = 'gemini-2.5-flash';
+
+let ai: GoogleGenAI | null = null;
+
+function getClient(): GoogleGenAI {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) throw new Error("No API Key");
+  if (!ai) ai = new GoogleGenAI({ apiKey });
+  return ai;
+}
+
+// Transcribes one self-contained audio segment with Gemini Flash
+export async function transcribeAudio(
+  base64Audio: string,
+  mimeType: string,
+  language?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const prompt = `
+        Task: Transcribe this audio segment from a continuous stream verbatim.
+        Language: ${language || 'Detect language'}.
+        Rules:
+        - Output ONLY the transcribed text.
+        - No notes, no explanations.
+        - If audio is cut off, transcribe what is audible.
+        - If no speech, return empty string.
+      `;
+
+  const response = await getClient().models.generateContent({
+    model: MODEL,
+    contents: [
+      {
+        inlineData: {
+          mimeType,
+          data: base64Audio
+        }
+      },
+      { text: prompt }
+    ],
+    config: { abortSignal: signal }
+  });
+
+  return response.text?.trim() || "";
+}
@@ -0,0 +1,213 @@
+import { SessionMetadata, TranscriptItem } from '../types';
+import { groupTranscript, TranscriptRow } from './transcript';
+
+export type ExportFormat = 'srt' | 'vtt' | 'json' | 'md';
+export type ExportScope = 'source' | 'translation' | 'both';
+
+export interface ExportOptions {
+  scope: ExportScope;
+  // Restrict translations to one language; all languages when omitted
+  targetLanguage?: string;
+}
+
+const SESSION_FORMAT = 'eburon-session';
+const SESSION_FORMAT_VERSION = 1;
+
+// Cues without a following utterance get a reading-time estimate
+const MIN_CUE_MS = 1500;
+const MAX_CUE_MS = 7000;
+const MS_PER_CHAR = 60;
+
+function pad(value: number, length = 2): string {
+  return value.toString().padStart(length, '0');
+}
+
+function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const clamped = Math.max(0, Math.round(ms));
+  const hours = Math.floor(clamped / 3600000);
+  const minutes = Math.floor((clamped % 3600000) / 60000);
+  const seconds = Math.floor((clamped % 60000) / 1000);
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(clamped % 1000, 3)}`;
+}
+
+function formatClock(ms: number): string {
+  return formatTimestamp(ms, '.').slice(0, 8);
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+function rowLines(row: TranscriptRow, { scope, targetLanguage }: ExportOptions, labelLanguages: boolean): string[] {
+  const translations = row.translations
+    .filter(t => t.text.trim() && (!targetLanguage || t.targetLanguage === targetLanguage));
+  const lines: string[] = [];
+  if (scope !== 'translation') lines.push(row.item.text.trim());
+  if (scope !== 'source') {
+    for (const t of translations) {
+      lines.push(labelLanguages && t.targetLanguage ? `[${t.targetLanguage}] ${t.text.trim()}` : t.text.trim());
+    }
+  }
+  return lines.filter(Boolean);
+}
+
+// Session-relative cues: each source utterance runs until the next one starts
+function buildCues(messages: TranscriptItem[], sessionStart: Date, options: ExportOptions): Cue[] {
+  const rows = groupTranscript(messages).filter(row => row.item.speaker === 'user');
+  const languages = new Set(rows.flatMap(row => row.translations.map(t => t.targetLanguage)));
+  const labelLanguages = !options.targetLanguage && (options.scope === 'both' || languages.size > 1);
+  const origin = sessionStart.getTime();
+
+  return rows.flatMap((row, index) => {
+    const lines = rowLines(row, options, labelLanguages);
+    if (lines.length === 0) return [];
+
+    const start = row.item.timestamp.getTime() - origin;
+    const estimate = Math.min(MAX_CUE_MS, Math.max(MIN_CUE_MS, lines.join(' ').length * MS_PER_CHAR));
+    const next = rows[index + 1];
+    const end = next ? Math.min(start + estimate, next.item.timestamp.getTime() - origin) : start + estimate;
+    return [{ start, end: Math.max(end, start + 1), lines }];
+  });
+}
+
+export function toSrt(messages: TranscriptItem[], sessionStart: Date, options: ExportOptions): string {
+  return buildCues(messages, sessionStart, options)
+    .map((cue, index) => [
+      `${index + 1}`,
+      `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+      ...cue.lines,
+    ].join('\n'))
+    .join('\n\n') + '\n';
+}
+
+export function toWebVtt(messages: TranscriptItem[], sessionStart: Date, options: ExportOptions): string {
+  const cues = buildCues(messages, sessionStart, options)
+    .map((cue, index) => [
+      `${index + 1}`,
+      `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+      // "-->" is not allowed inside cue payloads
+      ...cue.lines.map(line => line.replace(/-->/g, '->')),
+    ].join('\n'));
+  return ['WEBVTT', '', ...cues.flatMap(cue => [cue, ''])].join('\n');
+}
+
+// --- Lossless JSON ---
+
+interface SerializedSession {
+  format: typeof SESSION_FORMAT;
+  version: number;
+  session: Omit<SessionMetadata, 'startedAt' | 'endedAt'> & { startedAt: string; endedAt?: string };
+  items: (Omit<TranscriptItem, 'timestamp'> & { timestamp: string })[];
+}
+
+export function toSessionJson(session: SessionMetadata, messages: TranscriptItem[]): string {
+  const payload: SerializedSession = {
+    format: SESSION_FORMAT,
+    version: SESSION_FORMAT_VERSION,
+    session: {
+      ...session,
+      startedAt: session.startedAt.toISOString(),
+      endedAt: session.endedAt?.toISOString(),
+    },
+    items: messages.map(m => ({ ...m, timestamp: m.timestamp.toISOString() })),
+  };
+  return JSON.stringify(payload, null, 2);
+}
+
+export function parseSessionJson(json: string): { session: SessionMetadata; messages: TranscriptItem[] } {
+  const payload = JSON.parse(json) as SerializedSession;
+  if (payload.format !== SESSION_FORMAT) {
+    throw new Error('Not an Eburon session file');
+  }
+  return {
+    session: {
+      ...payload.session,
+      startedAt: new Date(payload.session.startedAt),
+      endedAt: payload.session.endedAt ? new Date(payload.session.endedAt) : undefined,
+    },
+    messages: payload.items.map(item => ({ ...item, timestamp: new Date(item.timestamp) })),
+  };
+}
+
+// --- Markdown Minutes ---
+
+export function toMarkdown(session: SessionMetadata, messages: TranscriptItem[], options: ExportOptions): string {
+  const origin = session.startedAt.getTime();
+  const lines: string[] = [
+    `# ${session.title || `Session ${session.startedAt.toLocaleString()}`}`,
+    '',
+    `- **Started:** ${session.startedAt.toLocaleString()}`,
+  ];
+  if (session.endedAt) lines.push(`- **Ended:** ${session.endedAt.toLocaleString()}`);
+  if (session.deviceLabel) lines.push(`- **Source:** ${session.deviceLabel}`);
+  lines.push(`- **Languages:** ${session.sourceLanguage} → ${session.targetLanguages.join(', ')}`);
+  if (session.zoomLink) lines.push(`- **Meeting:** ${session.zoomLink}`);
+  lines.push('', '## Transcript', '');
+
+  for (const row of groupTranscript(messages)) {
+    const clock = formatClock(row.item.timestamp.getTime() - origin);
+
+    if (row.item.speaker === 'system') {
+      lines.push(`*${clock} — ${row.item.text}*`, '');
+      continue;
+    }
+
+    const translations = row.translations
+      .filter(t => t.text.trim() && (!options.targetLanguage || t.targetLanguage === options.targetLanguage));
+
+    if (row.item.speaker === 'user' && options.scope !== 'translation') {
+      lines.push(`**[${clock}]** ${row.item.text.trim()}`);
+    } else {
+      lines.push(`**[${clock}]**`);
+    }
+    if (options.scope !== 'source') {
+      const items = row.item.speaker === 'eburon' ? [row.item] : translations;
+      for (const t of items) {
+        lines.push(`> ${t.targetLanguage ? `*${t.targetLanguage}:* ` : ''}${t.text.trim()}`);
+      }
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+// --- Download ---
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  srt: 'application/x-subrip',
+  vtt: 'text/vtt',
+  json: 'application/json',
+  md: 'text/markdown',
+};
+
+export function exportTranscript(format: ExportFormat, session: SessionMetadata, messages: TranscriptItem[], options: ExportOptions): string {
+  switch (format) {
+    case 'srt': return toSrt(messages, session.startedAt, options);
+    case 'vtt': return toWebVtt(messages, session.startedAt, options);
+    case 'json': return toSessionJson(session, messages);
+    case 'md': return toMarkdown(session, messages, options);
+  }
+}
+
+export function downloadFile(fileName: string, content: string | Blob, mimeType: string) {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: `${mimeType};charset=utf-8` });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export function downloadTranscript(format: ExportFormat, session: SessionMetadata, messages: TranscriptItem[], options: ExportOptions) {
+  const stamp = session.startedAt.toISOString().slice(0, 16).replace(/[:T]/g, '-');
+  const language = options.targetLanguage ? `-${options.targetLanguage.replace(/[^\w-]+/g, '_')}` : '';
+  const suffix = format === 'json' ? '' : `-${options.scope}${language}`;
+  const fileName = `eburon-${stamp}${suffix}.${format}`;
+  downloadFile(fileName, exportTranscript(format, session, messages, options), MIME_TYPES[format]);
+}
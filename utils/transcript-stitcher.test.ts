@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { createTranscriptStitcher, findOverlap } from './transcript-stitcher';
+
+const words = (text: string) => text.split(' ');
+
+describe('findOverlap', () => {
+  it('finds words the next chunk repeats', () => {
+    expect(findOverlap(words('the quick brown fox'), words('brown fox jumps'))).toBe(2);
+  });
+
+  it('ignores case and punctuation', () => {
+    expect(findOverlap(words('see you at the Meeting.'), words('the meeting, then'))).toBe(2);
+  });
+
+  it('returns 0 when nothing lines up', () => {
+    expect(findOverlap(words('good morning everyone'), words('let us begin'))).toBe(0);
+    expect(findOverlap([], words('let us begin'))).toBe(0);
+  });
+
+  it('tolerates one misheard word in a long run but not in a short one', () => {
+    expect(findOverlap(words('we are going to the meeting'), words('going too the meting today'))).toBe(4);
+    expect(findOverlap(words('over to you'), words('ever two you now'))).toBe(0);
+  });
+
+  it('prefers the longest alignment', () => {
+    expect(findOverlap(words('yes yes yes'), words('yes yes yes no'))).toBe(3);
+  });
+
+  it('looks back at most eight words', () => {
+    const sentence = words('one two three four five six seven eight nine ten');
+    expect(findOverlap(sentence, sentence)).toBe(0);
+    expect(findOverlap(sentence, sentence.slice(2))).toBe(8);
+  });
+});
+
+describe('createTranscriptStitcher', () => {
+  it('holds text until its sentence ends', () => {
+    const stitcher = createTranscriptStitcher();
+    expect(stitcher.push('Hello everyone, welcome')).toEqual([]);
+    expect(stitcher.hasPending()).toBe(true);
+    expect(stitcher.push('welcome to the call. Today we')).toEqual(['Hello everyone, welcome to the call.']);
+    expect(stitcher.flush()).toBe('Today we');
+    expect(stitcher.hasPending()).toBe(false);
+  });
+
+  it('releases each completed sentence separately', () => {
+    const stitcher = createTranscriptStitcher();
+    expect(stitcher.push('One. Two! Three')).toEqual(['One.', 'Two!']);
+  });
+
+  it('waits for the next chunk to confirm a full stop at the end of a chunk', () => {
+    const stitcher = createTranscriptStitcher();
+    expect(stitcher.push('That is all.')).toEqual([]);
+    expect(stitcher.push('Thanks')).toEqual(['That is all.']);
+  });
+
+  it('drops words repeated after their sentence was already released', () => {
+    const stitcher = createTranscriptStitcher();
+    expect(stitcher.push('Good morning. Let us')).toEqual(['Good morning.']);
+    expect(stitcher.push('morning. Let us begin.')).toEqual([]);
+    expect(stitcher.flush()).toBe('Let us begin.');
+  });
+
+  it('lets the newer chunk replace held words it overlaps', () => {
+    const stitcher = createTranscriptStitcher();
+    stitcher.push('we shipped the new');
+    expect(stitcher.push('the new release. Next')).toEqual(['we shipped the new release.']);
+  });
+
+  it('forgets the previous chunk on reset', () => {
+    const stitcher = createTranscriptStitcher();
+    stitcher.push('thank you');
+    stitcher.reset();
+    expect(stitcher.hasPending()).toBe(false);
+    stitcher.push('thank you all');
+    expect(stitcher.flush()).toBe('thank you all');
+  });
+});
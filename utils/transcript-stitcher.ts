@@ -0,0 +1,104 @@
+import { findLastSentenceBoundary, splitSentences } from './text-segmentation';
+
+// Longest run of words we try to line up across a chunk boundary.
+// The audio overlap is a few hundred ms, so repeats are short.
+const MAX_OVERLAP_WORDS = 8;
+// Per-word similarity needed to count as the same word (ASR often varies endings)
+const WORD_SIMILARITY = 0.75;
+
+export interface TranscriptStitcher {
+  // Adds the next chunk's text; returns the sentences that are now complete, one per entry
+  push: (text: string) => string[];
+  // Whether text is being held back waiting for its sentence to end
+  hasPending: () => boolean;
+  // Releases whatever is buffered, complete or not
+  flush: () => string;
+  reset: () => void;
+}
+
+const normalizeWord = (word: string) => word.normalize('NFC').toLowerCase().replace(/[^\p{L}\p{N}]/gu, '');
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return row[b.length];
+}
+
+function isSameWord(a: string, b: string): boolean {
+  if (a === b) return true;
+  const longest = Math.max(a.length, b.length);
+  return longest > 0 && 1 - levenshtein(a, b) / longest >= WORD_SIMILARITY;
+}
+
+// Number of leading words of `next` that repeat the trailing words of `previous`.
+// Prefers the longest alignment; one mismatched word is tolerated in runs of 4+.
+export function findOverlap(previous: string[], next: string[]): number {
+  const prev = previous.map(normalizeWord);
+  const incoming = next.map(normalizeWord);
+  const limit = Math.min(MAX_OVERLAP_WORDS, prev.length, incoming.length);
+
+  for (let k = limit; k > 0; k--) {
+    let mismatches = 0;
+    for (let i = 0; i < k; i++) {
+      if (!isSameWord(prev[prev.length - k + i], incoming[i])) mismatches++;
+    }
+    if (mismatches === 0 || (k >= 4 && mismatches === 1)) return k;
+  }
+  return 0;
+}
+
+// Joins consecutive chunk transcripts into sentences: boundary duplicates are
+// dropped and text is held back until a sentence actually ends.
+export function createTranscriptStitcher(): TranscriptStitcher {
+  let buffer: string[] = [];
+  // Words of the last chunk, kept after release so the next chunk can still align
+  let tail: string[] = [];
+
+  const push = (text: string): string[] => {
+    const words = text.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) return [];
+
+    const overlap = findOverlap(tail, words);
+    tail = words.slice(-MAX_OVERLAP_WORDS);
+
+    // The newer chunk heard the repeated words with more context (and usually
+    // punctuation), so its version wins if they have not been released yet
+    if (overlap > 0 && buffer.length >= overlap) {
+      buffer = [...buffer.slice(0, buffer.length - overlap), ...words];
+    } else {
+      buffer = [...buffer, ...words.slice(overlap)];
+    }
+
+    // A full stop at the very end of a chunk is often the model closing a cut-off
+    // fragment, so it only counts once the next chunk confirms it
+    const joined = buffer.join(' ');
+    const boundary = findLastSentenceBoundary(joined);
+    if (boundary <= 0) return [];
+
+    const rest = joined.slice(boundary).trim();
+    buffer = rest ? rest.split(/\s+/) : [];
+    // One chunk can close several sentences; TTS paces itself per sentence
+    return splitSentences(joined.slice(0, boundary));
+  };
+
+  const flush = () => {
+    const remaining = buffer.join(' ');
+    buffer = [];
+    return remaining;
+  };
+
+  const reset = () => {
+    buffer = [];
+    tail = [];
+  };
+
+  return { push, hasPending: () => buffer.length > 0, flush, reset };
+}
@@ -0,0 +1,67 @@
+import { TranscriptItem } from '../types';
+
+export function createSessionId(): string {
+  return `s${Date.now().toString(36)}`;
+}
+
+// Ids never collide within a session, unlike Date.now() which repeats when two
+// items land in the same millisecond. Order them with compareItemIds, not as
+// strings: the padding runs out after 9999 items.
+export function createIdSequence(sessionId: string, start = 0): () => string {
+  let seq = start;
+  return () => `${sessionId}-${(++seq).toString().padStart(4, '0')}`;
+}
+
+// Creation order within a session, from the numeric suffix of the id
+export function getItemSeq(id: string): number {
+  const seq = Number(id.slice(id.lastIndexOf('-') + 1));
+  return Number.isFinite(seq) ? seq : 0;
+}
+
+export function compareItemIds(a: string, b: string): number {
+  return getItemSeq(a) - getItemSeq(b) || a.localeCompare(b);
+}
+
+// Continues numbering after the highest id already used in a restored session
+export function resumeIdSequence(sessionId: string, items: TranscriptItem[]): () => string {
+  const last = items.reduce((max, item) => {
+    const seq = getItemSeq(item.id);
+    return item.id.startsWith(`${sessionId}-`) && seq > max ? seq : max;
+  }, 0);
+  return createIdSequence(sessionId, last);
+}
+
+export interface TranscriptRow {
+  item: TranscriptItem;
+  translations: TranscriptItem[];
+}
+
+// Folds translations under their source utterance. Status lines and translations
+// whose source is not present stay as rows of their own, in original order.
+export function groupTranscript(messages: TranscriptItem[]): TranscriptRow[] {
+  const rows: TranscriptRow[] = [];
+  const bySource = new Map<string, TranscriptRow>();
+
+  for (const message of messages) {
+    const parent = message.sourceId ? bySource.get(message.sourceId) : undefined;
+    if (parent) {
+      parent.translations.push(message);
+      continue;
+    }
+    const row = { item: message, translations: [] };
+    if (message.speaker === 'user') bySource.set(message.id, row);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Utterances per detected language, most frequent first
+export function tallyDetectedLanguages(messages: TranscriptItem[]): { language: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const message of messages) {
+    if (message.speaker === 'user' && message.detectedLanguage) {
+      counts.set(message.detectedLanguage, (counts.get(message.detectedLanguage) ?? 0) + 1);
+    }
+  }
+  return Array.from(counts, ([language, count]) => ({ language, count })).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { GlossaryEntry } from '../types';
+import { createTranslationCache, hashGlossary, normalizeCacheText } from './translation-cache';
+
+const key = (text: string, glossaryHash = '') => ({
+  text, sourceLanguage: 'English', targetLanguage: 'Spanish', providerId: 'local', model: 'phrasebook-v1', glossaryHash,
+});
+
+const entry = (source: string, target: string): GlossaryEntry => ({
+  id: source, source, target, sourceLanguage: 'English', targetLanguage: 'Spanish', doNotTranslate: false,
+});
+
+describe('normalizeCacheText', () => {
+  it('folds whitespace and Unicode composition', () => {
+    expect(normalizeCacheText('  café   au\tlait ')).toBe('café au lait');
+  });
+
+  it('keeps case', () => {
+    expect(normalizeCacheText('US')).not.toBe(normalizeCacheText('us'));
+  });
+});
+
+describe('hashGlossary', () => {
+  it('is empty without entries and ignores entry order', () => {
+    expect(hashGlossary([])).toBe('');
+    expect(hashGlossary([entry('a', 'b'), entry('c', 'd')])).toBe(hashGlossary([entry('c', 'd'), entry('a', 'b')]));
+  });
+
+  it('changes when a target changes', () => {
+    expect(hashGlossary([entry('sprint', 'iteración')])).not.toBe(hashGlossary([entry('sprint', 'sprint')]));
+  });
+});
+
+describe('createTranslationCache', () => {
+  // IndexedDB is absent here, so the cache runs from memory
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('does not share entries between texts that differ only in case', async () => {
+    const cache = createTranslationCache();
+    await cache.set(key('Apple'), 'Apple');
+    expect(await cache.get(key('Apple'))).toBe('Apple');
+    expect(await cache.get(key('apple'))).toBeUndefined();
+  });
+
+  it('shares entries between texts that differ only in spacing', async () => {
+    const cache = createTranslationCache();
+    await cache.set(key('next  slide'), 'siguiente diapositiva');
+    expect(await cache.get(key(' next slide'))).toBe('siguiente diapositiva');
+  });
+
+  it('misses once the applicable glossary changes', async () => {
+    const cache = createTranslationCache();
+    await cache.set(key('the sprint', hashGlossary([entry('sprint', 'iteración')])), 'la iteración');
+    expect(await cache.get(key('the sprint', hashGlossary([entry('sprint', 'sprint')])))).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry beyond its memory cap', async () => {
+    const cache = createTranslationCache({ maxMemoryEntries: 2 });
+    await cache.set(key('one'), 'uno');
+    await cache.set(key('two'), 'dos');
+    await cache.get(key('one'));
+    await cache.set(key('three'), 'tres');
+    expect(await cache.get(key('two'))).toBeUndefined();
+    expect(await cache.get(key('one'))).toBe('uno');
+  });
+});
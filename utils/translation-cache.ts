@@ -0,0 +1,185 @@
+import { GlossaryEntry } from '../types';
+import { STORES, withStore } from './idb';
+
+export interface TranslationCacheKey {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  providerId: string;
+  model: string;
+  // hashGlossary() of the entries the text matches; '' when none apply
+  glossaryHash: string;
+}
+
+export interface TranslationCacheStats {
+  hits: number;
+  misses: number;
+  memoryEntries: number;
+  persistedEntries: number;
+}
+
+interface CachedTranslation {
+  key: string;
+  translation: string;
+  lastUsed: number;
+}
+
+interface TranslationCacheOptions {
+  maxMemoryEntries?: number;
+  maxPersistedEntries?: number;
+}
+
+export function normalizeCacheText(text: string): string {
+  // Case is kept: "US" and "us" or "Apple" and "apple" can need different translations
+  return text.normalize('NFC').trim().replace(/\s+/g, ' ');
+}
+
+// Order-independent FNV-1a over the entries, so editing or adding a term that
+// the text uses invalidates its cached translations
+export function hashGlossary(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return '';
+  const serialized = entries
+    .map(e => [e.source, e.target, e.doNotTranslate ? '1' : '0'].join('\u0001'))
+    .sort()
+    .join('\u0002');
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < serialized.length; i++) {
+    hash ^= serialized.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function serializeKey({ text, sourceLanguage, targetLanguage, providerId, model, glossaryHash }: TranslationCacheKey): string {
+  return [providerId, model, sourceLanguage, targetLanguage, glossaryHash, normalizeCacheText(text)].join('|');
+}
+
+// Two-level cache: an in-memory LRU in front of an IndexedDB store.
+// IndexedDB failures are logged and the cache degrades to memory only.
+export function createTranslationCache({
+  maxMemoryEntries = 500,
+  maxPersistedEntries = 5000,
+}: TranslationCacheOptions = {}) {
+  // Map iteration order doubles as LRU order: oldest first
+  const memory = new Map<string, string>();
+  const listeners = new Set<(stats: TranslationCacheStats) => void>();
+  let stats: TranslationCacheStats = { hits: 0, misses: 0, memoryEntries: 0, persistedEntries: 0 };
+
+  const emit = (patch: Partial<TranslationCacheStats>) => {
+    stats = { ...stats, ...patch, memoryEntries: memory.size };
+    listeners.forEach(listener => listener(stats));
+  };
+
+  const remember = (key: string, translation: string) => {
+    memory.delete(key);
+    memory.set(key, translation);
+    while (memory.size > maxMemoryEntries) {
+      const oldest = memory.keys().next().value as string;
+      memory.delete(oldest);
+    }
+  };
+
+  const touch = (record: CachedTranslation) => {
+    withStore(STORES.translations, 'readwrite', store => store.put({ ...record, lastUsed: Date.now() }))
+      .catch(e => console.warn("Translation cache touch failed", e));
+  };
+
+  const countPersisted = async () => {
+    try {
+      const count = await withStore(STORES.translations, 'readonly', store => store.count());
+      emit({ persistedEntries: count });
+      return count;
+    } catch (e) {
+      return 0;
+    }
+  };
+
+  // Deletes least recently used records until the store is back under its cap
+  const evictPersisted = async () => {
+    const count = await countPersisted();
+    let excess = count - maxPersistedEntries;
+    if (excess <= 0) return;
+
+    await withStore(STORES.translations, 'readwrite', store => new Promise<void>((resolve, reject) => {
+      const cursorRequest = store.index('lastUsed').openCursor();
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    }));
+    await countPersisted();
+  };
+
+  const get = async (cacheKey: TranslationCacheKey): Promise<string | undefined> => {
+    const key = serializeKey(cacheKey);
+
+    const inMemory = memory.get(key);
+    if (inMemory !== undefined) {
+      remember(key, inMemory);
+      emit({ hits: stats.hits + 1 });
+      return inMemory;
+    }
+
+    try {
+      const record = await withStore<CachedTranslation | undefined>(
+        STORES.translations, 'readonly', store => store.get(key)
+      );
+      if (record) {
+        remember(key, record.translation);
+        touch(record);
+        emit({ hits: stats.hits + 1 });
+        return record.translation;
+      }
+    } catch (e) {
+      console.warn("Translation cache lookup failed", e);
+    }
+
+    emit({ misses: stats.misses + 1 });
+    return undefined;
+  };
+
+  const set = async (cacheKey: TranslationCacheKey, translation: string) => {
+    if (!translation.trim()) return;
+    const key = serializeKey(cacheKey);
+    remember(key, translation);
+    emit({});
+
+    try {
+      await withStore(STORES.translations, 'readwrite', store =>
+        store.put({ key, translation, lastUsed: Date.now() } as CachedTranslation)
+      );
+      await evictPersisted();
+    } catch (e) {
+      console.warn("Translation cache write failed", e);
+    }
+  };
+
+  const clear = async () => {
+    memory.clear();
+    try {
+      await withStore(STORES.translations, 'readwrite', store => store.clear());
+    } catch (e) {
+      console.warn("Translation cache clear failed", e);
+    }
+    emit({ hits: 0, misses: 0, persistedEntries: 0 });
+  };
+
+  const subscribe = (listener: (stats: TranslationCacheStats) => void) => {
+    listeners.add(listener);
+    listener(stats);
+    return () => { listeners.delete(listener); };
+  };
+
+  countPersisted();
+
+  return { get, set, clear, subscribe, getStats: () => stats };
+}
+
+export const translationCache = createTranslationCache();
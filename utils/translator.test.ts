@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest';
+import { registerTranslationProvider, translateText, translateTextStream } from './translator';
+
+registerTranslationProvider({
+  id: 'failing',
+  label: 'Failing',
+  model: 'none',
+  capabilities: { supportedLanguages: 'all', streaming: true, requiresApiKey: false },
+  isAvailable: () => true,
+  translate: async () => { throw new Error('quota'); },
+  translateStream: async function* () { throw new Error('quota'); },
+});
+
+describe('translator fallback', () => {
+  it('reports when the source text stands in for a failed translation', async () => {
+    const onFallback = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await translateText('Hello there', 'English', 'Spanish', { providerId: 'failing', bypassCache: true, onFallback })).toBe('Hello there');
+    expect(onFallback).toHaveBeenCalledOnce();
+  });
+
+  it('reports a failed stream the same way', async () => {
+    const onFallback = vi.fn();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const chunks: string[] = [];
+    for await (const chunk of translateTextStream('Hello there', 'English', 'Spanish', { providerId: 'failing', bypassCache: true, onFallback })) chunks.push(chunk);
+    expect(chunks).toEqual(['Hello there']);
+    expect(onFallback).toHaveBeenCalledOnce();
+  });
+
+  it('stays quiet when the provider succeeds', async () => {
+    const onFallback = vi.fn();
+    await translateText('Thank you', 'English', 'Spanish', { providerId: 'local', bypassCache: true, onFallback });
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+});
@@ -1,38 +1,130 @@
+import { GlossaryEntry, TranslationContextEntry, TranslationProvider } from '../types';
+import { createGeminiProvider } from './providers/gemini-provider';
+import { createLocalProvider } from './providers/local-provider';
+import { hashGlossary, translationCache } from './translation-cache';
+import { findGlossaryMatches } from './glossary';
+import { translationScheduler } from './request-scheduler';
 
-import { GoogleGenAI } from "@google/genai";
+const providers = new Map<string, TranslationProvider>();
 
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+export function registerTranslationProvider(provider: TranslationProvider) {
+  providers.set(provider.id, provider);
+}
+
+registerTranslationProvider(createGeminiProvider());
+registerTranslationProvider(createLocalProvider());
+
+export function listTranslationProviders(): TranslationProvider[] {
+  return Array.from(providers.values());
+}
+
+// Prefer Gemini when a key is configured, otherwise run offline
+export function getDefaultProviderId(): string {
+  return providers.get('gemini')?.isAvailable() ? 'gemini' : 'local';
+}
+
+export function getTranslationProvider(id: string = getDefaultProviderId()): TranslationProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown translation provider: ${id}`);
+  }
+  return provider;
+}
+
+export interface TranslateOptions {
+  providerId?: string;
+  context?: TranslationContextEntry[];
+  glossary?: GlossaryEntry[];
+  // Skip the translation cache for both lookup and storage
+  bypassCache?: boolean;
+  // Called when the provider failed; the result is then the source text or a partial translation
+  onFallback?: (error: unknown) => void;
+}
 
 export async function translateText(
-  text: string, 
-  sourceLanguage: string, 
-  targetLanguage: string
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  { providerId, context, glossary, bypassCache, onFallback }: TranslateOptions = {}
 ): Promise<string> {
   if (!text || !text.trim()) return '';
 
   try {
-    const prompt = `
-      You are a professional translator.
-      Source Language: ${sourceLanguage === 'Auto Detect' ? 'Detect language' : sourceLanguage}
-      Target Language: ${targetLanguage}
-      
-      Task: Translate the following text accurately and naturally.
-      - Maintain the original tone and intent.
-      - Output ONLY the translation.
-      - Do not include "Translation:" or any other labels.
-
-      Text: "${text}"
-    `;
-
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-    });
-
-    return response.text?.trim() || '';
+    const provider = getTranslationProvider(providerId);
+    const cacheKey = {
+      text, sourceLanguage, targetLanguage, providerId: provider.id, model: provider.model,
+      glossaryHash: hashGlossary(findGlossaryMatches(text, glossary || []))
+    };
+
+    if (!bypassCache) {
+      const cached = await translationCache.get(cacheKey);
+      if (cached !== undefined) return cached;
+    }
+
+    const translated = await translationScheduler.schedule(
+      () => provider.translate({ text, sourceLanguage, targetLanguage, context, glossary })
+    );
+    if (!bypassCache) translationCache.set(cacheKey, translated);
+    return translated;
   } catch (error) {
     console.error("Translation failed:", error);
+    onFallback?.(error);
     return text; // Fallback to original text on failure
   }
 }
+
+// Yields translation text incrementally. Providers without streaming support
+// produce a single chunk with the full result, as do cache hits.
+export async function* translateTextStream(
+  text: string,
+  sourceLanguage: string,
+  targetLanguage: string,
+  { providerId, context, glossary, bypassCache, onFallback }: TranslateOptions = {}
+): AsyncGenerator<string> {
+  if (!text || !text.trim()) return;
+
+  let emitted = false;
+  try {
+    const provider = getTranslationProvider(providerId);
+    const request = { text, sourceLanguage, targetLanguage, context, glossary };
+    const cacheKey = {
+      text, sourceLanguage, targetLanguage, providerId: provider.id, model: provider.model,
+      glossaryHash: hashGlossary(findGlossaryMatches(text, glossary || []))
+    };
+
+    if (!bypassCache) {
+      const cached = await translationCache.get(cacheKey);
+      if (cached !== undefined) {
+        emitted = true;
+        yield cached;
+        return;
+      }
+    }
+
+    let translated = '';
+    if (!provider.translateStream) {
+      translated = await translationScheduler.schedule(() => provider.translate(request));
+      emitted = true;
+      yield translated;
+    } else {
+      // The scheduler covers opening the stream, which is where rate limits hit;
+      // a retry needs a fresh generator since a failed one cannot be resumed
+      const { stream, first } = await translationScheduler.schedule(async () => {
+        const stream = provider.translateStream!(request);
+        return { stream, first: await stream.next() };
+      });
+      for (let result = first; !result.done; result = await stream.next()) {
+        translated += result.value;
+        emitted = true;
+        yield result.value;
+      }
+    }
+
+    // Only completed translations are cached; failures fall through to the catch
+    if (!bypassCache) translationCache.set(cacheKey, translated.trim());
+  } catch (error) {
+    console.error("Streaming translation failed:", error);
+    onFallback?.(error);
+    if (!emitted) yield text; // Fallback to original text on failure
+  }
+}
@@ -0,0 +1,90 @@
+import { GoogleGenAI, LiveServerMessage, Session } from '@google/genai';
+import { SpeakingStyle, VoiceName } from '../types';
+import { decodeLiveAudio } from './audio-utils';
+import { createOutputRoute } from './output-device';
+import { buildTtsSessionConfig } from './voices';
+
+const PREVIEW_TEXT = 'Good morning, everyone. This is how the interpretation will sound during the meeting.';
+// Connecting plus one sentence of speech; anything slower is a failure
+const PREVIEW_TIMEOUT_MS = 15000;
+
+interface VoicePreviewOptions {
+  voice: VoiceName;
+  style: SpeakingStyle;
+  customStyle?: string;
+  outputDeviceId?: string;
+}
+
+// Speaks a sample sentence with a voice and style through a short-lived Live
+// session. Resolves once the sample has finished playing.
+export async function previewVoice({ voice, style, customStyle, outputDeviceId }: VoicePreviewOptions): Promise<void> {
+  const apiKey = process.env.API_KEY;
+  if (!apiKey) {
+    throw new Error('API_KEY not found in environment');
+  }
+
+  const ai = new GoogleGenAI({ apiKey });
+  const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+  const ctx: AudioContext = new AudioContextClass({ sampleRate: 24000 });
+  const output = ctx.createGain();
+  const route = createOutputRoute(ctx, output);
+  try {
+    await route.setDevice(outputDeviceId);
+  } catch (e) {
+    console.warn("Preview output device unavailable, using default", e);
+  }
+
+  let session: Session | null = null;
+  let nextStartTime = 0;
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      let done = false;
+      const finish = (error?: Error) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timeout);
+        if (error) {
+          reject(error);
+          return;
+        }
+        // Let the scheduled audio play out before tearing down
+        setTimeout(resolve, Math.max(0, nextStartTime - ctx.currentTime) * 1000);
+      };
+      const timeout = setTimeout(() => finish(new Error('Voice preview timed out')), PREVIEW_TIMEOUT_MS);
+
+      ai.live.connect({
+        ...buildTtsSessionConfig(voice, style, customStyle),
+        callbacks: {
+          onmessage: (message: LiveServerMessage) => {
+            const base64Audio = message.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (base64Audio) {
+              const source = ctx.createBufferSource();
+              source.buffer = decodeLiveAudio(ctx, base64Audio);
+              source.connect(output);
+              nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+              source.start(nextStartTime);
+              nextStartTime += source.buffer.duration;
+            }
+            if (message.serverContent?.turnComplete) finish();
+          },
+          onerror: () => finish(new Error('Voice preview failed')),
+          onclose: () => finish(),
+        },
+      }).then(opened => {
+        // Timed out while connecting: cleanup has already run without this session
+        if (done) {
+          opened.close();
+          return;
+        }
+        session = opened;
+        if (ctx.state === 'suspended') ctx.resume();
+        opened.sendClientContent({ turns: [{ role: 'user', parts: [{ text: PREVIEW_TEXT }] }], turnComplete: true });
+      }, reject);
+    });
+  } finally {
+    (session as Session | null)?.close();
+    route.dispose();
+    ctx.close();
+  }
+}
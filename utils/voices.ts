@@ -0,0 +1,92 @@
+import { Modality } from '@google/genai';
+import { SpeakingStyle, VoiceName } from '../types';
+
+export const VOICE_NAMES: VoiceName[] = ['Puck', 'Charon', 'Kore', 'Fenrir', 'Zephyr', 'Aoede', 'Leda', 'Orus'];
+
+export const DEFAULT_VOICE: VoiceName = 'Fenrir';
+
+export const DEFAULT_STYLE: SpeakingStyle = 'neutral';
+
+export const TTS_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+
+export const SPEAKING_STYLES: { id: SpeakingStyle; label: string; guide: string }[] = [
+  {
+    id: 'neutral',
+    label: 'Neutral Interpreter',
+    guide: `
+        ROLE: Professional Simultaneous Interpreter.
+        VOICE STYLE GUIDE:
+        1. Clear, even and unobtrusive. Steady pace, natural intonation, no dramatisation.
+        2. Keep the register of the text: formal stays formal, casual stays casual.
+        3. Favour intelligibility over expressiveness; never rush the ends of sentences.
+    `,
+  },
+  {
+    id: 'narrator',
+    label: 'Calm Narrator',
+    guide: `
+        ROLE: Calm Documentary Narrator.
+        VOICE STYLE GUIDE:
+        1. Warm, relaxed and unhurried, with a slightly lower energy than conversation.
+        2. Short natural pauses between sentences; soft emphasis on key words only.
+        3. Reassuring and composed, even when the content is urgent.
+    `,
+  },
+  {
+    id: 'orator',
+    label: 'Dynamic Orator',
+    guide: `
+        ROLE: Professional Voice Actor / Dynamic Orator.
+        VOICE STYLE GUIDE (Apply STRICTLY):
+        1. DYNAMIC & MODULATED: Do not be monotone. Shift frequently from soft, conversational whispers (to draw the audience in) to loud, projecting shouts (to emphasize power and conviction).
+        2. RHYTHMIC & REPETITIVE: Use a "preaching cadence". Build momentum rhythmically. Use repetition (anaphora) effectively.
+        3. STACCATO & EMPHATIC: When listing struggles or key points, use a punchy, staccato delivery to make words land heavily.
+        4. THEATRICAL: Use dramatic pauses to let concepts sink in. Act out the emotions (defiance, hope, authority).
+
+        TONE:
+        - Passionate and Urgent.
+        - Encouraging but Authoritative.
+        - Defiant against negativity.
+        - Speak with ABSOLUTE CONVICTION.
+    `,
+  },
+  {
+    id: 'custom',
+    label: 'Custom',
+    guide: '',
+  },
+];
+
+// The style only changes delivery; these rules keep the session a pure reader
+const TTS_RULES = `
+        TASK: You will receive text. Your ONLY job is to read it aloud in the language it is written in.
+
+        RULES:
+        1. DO NOT translate. The text provided is already in the target language.
+        2. DO NOT converse. Do not say "Okay" or "Sure".
+        3. READ IMMEDIATELY in the language of the text.
+        4. If you receive no text, be silent.
+`;
+
+export function buildTtsInstruction(style: SpeakingStyle, customStyle?: string): string {
+  const guide = style === 'custom'
+    ? `VOICE STYLE GUIDE:\n${customStyle?.trim() || 'Read naturally and clearly.'}`
+    : SPEAKING_STYLES.find(s => s.id === style)?.guide ?? SPEAKING_STYLES[0].guide;
+  return `${guide}\n${TTS_RULES}`;
+}
+
+// Session config for a TTS-only Live session; shared by interpretation and voice previews
+export function buildTtsSessionConfig(voiceName: VoiceName, style: SpeakingStyle, customStyle?: string) {
+  return {
+    model: TTS_MODEL,
+    config: {
+      responseModalities: [Modality.AUDIO],
+      speechConfig: {
+        voiceConfig: { prebuiltVoiceConfig: { voiceName } },
+      },
+      // CRITICAL: Disable all input audio processing
+      inputAudioTranscription: undefined,
+      systemInstruction: buildTtsInstruction(style, customStyle),
+    },
+  };
+}
@@ -0,0 +1,70 @@
+// AudioWorklet modules are shipped as source strings and loaded from Blob URLs,
+// so they need no separate bundler entry point.
+
+const loadedModules = new WeakMap<BaseAudioContext, Map<string, Promise<void>>>();
+
+export function isAudioWorkletSupported(): boolean {
+  return typeof AudioWorkletNode !== 'undefined' && typeof AudioContext !== 'undefined'
+    && 'audioWorklet' in AudioContext.prototype;
+}
+
+// Registers a processor once per context; concurrent callers share the same load
+export function loadWorkletModule(ctx: BaseAudioContext, name: string, source: string): Promise<void> {
+  let modules = loadedModules.get(ctx);
+  if (!modules) {
+    modules = new Map();
+    loadedModules.set(ctx, modules);
+  }
+
+  let pending = modules.get(name);
+  if (!pending) {
+    const url = URL.createObjectURL(new Blob([source], { type: 'application/javascript' }));
+    pending = ctx.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    // Allow a retry if loading failed
+    pending.catch(() => modules!.delete(name));
+    modules.set(name, pending);
+  }
+  return pending;
+}
+
+export interface WorkletGraph {
+  ctx: AudioContext;
+  node: AudioWorkletNode;
+  dispose: () => void;
+}
+
+// Feeds a MediaStream into a worklet processor on its own AudioContext.
+// The node is pulled through a muted sink so the capture is never played back.
+export async function connectStreamWorklet(
+  stream: MediaStream,
+  name: string,
+  source: string,
+  options?: AudioWorkletNodeOptions
+): Promise<WorkletGraph> {
+  const ctx = new AudioContext();
+  try {
+    await loadWorkletModule(ctx, name, source);
+    const node = new AudioWorkletNode(ctx, name, { numberOfOutputs: 1, ...options });
+    const input = ctx.createMediaStreamSource(stream);
+    const sink = ctx.createGain();
+    sink.gain.value = 0;
+    input.connect(node);
+    node.connect(sink);
+    sink.connect(ctx.destination);
+
+    return {
+      ctx,
+      node,
+      dispose: () => {
+        input.disconnect();
+        node.disconnect();
+        sink.disconnect();
+        node.port.onmessage = null;
+        ctx.close().catch(() => { /* already closed */ });
+      }
+    };
+  } catch (e) {
+    ctx.close().catch(() => { /* already closed */ });
+    throw e;
+  }
+}
@@ -0,0 +1,50 @@
+// AudioWorkletGlobalScope members; only defined inside the worklet at runtime
+declare const AudioWorkletProcessor: { new (): { port: MessagePort } };
+declare const registerProcessor: (name: string, ctor: unknown) => void;
+declare const sampleRate: number;
+
+export const PCM_CAPTURE_PROCESSOR_NAME = 'eburon-pcm-capture';
+
+export interface PcmBatchMessage {
+  samples: Float32Array;
+  sampleRate: number;
+}
+
+// Serialised with toString() and loaded from a Blob URL, so it must not
+// reference anything outside its own body.
+function pcmCaptureProcessorModule(processorName: string) {
+  class PcmCaptureProcessor extends AudioWorkletProcessor {
+    batch: Float32Array;
+    fill = 0;
+
+    constructor(options?: { processorOptions?: { batchMs?: number } }) {
+      super();
+      // Batching keeps postMessage traffic to ~10/s instead of one per 128-sample quantum
+      const batchMs = options?.processorOptions?.batchMs ?? 100;
+      this.batch = new Float32Array(Math.round(sampleRate * batchMs / 1000));
+    }
+
+    process(inputs: Float32Array[][]) {
+      const channels = inputs[0];
+      if (!channels || channels.length === 0) return true;
+
+      const length = channels[0].length;
+      for (let i = 0; i < length; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+        this.batch[this.fill++] = sum / channels.length;
+        if (this.fill === this.batch.length) {
+          const samples = this.batch;
+          this.batch = new Float32Array(samples.length);
+          this.fill = 0;
+          this.port.postMessage({ samples, sampleRate }, [samples.buffer]);
+        }
+      }
+      return true;
+    }
+  }
+
+  registerProcessor(processorName, PcmCaptureProcessor);
+}
+
+export const PCM_CAPTURE_PROCESSOR_SOURCE = `(${pcmCaptureProcessorModule.toString()})(${JSON.stringify(PCM_CAPTURE_PROCESSOR_NAME)});`;
@@ -0,0 +1,65 @@
+// AudioWorkletGlobalScope members; only defined inside the worklet at runtime
+declare const AudioWorkletProcessor: { new (): { port: MessagePort } };
+declare const registerProcessor: (name: string, ctor: unknown) => void;
+declare const sampleRate: number;
+
+export const RECORDER_PROCESSOR_NAME = 'eburon-recorder';
+
+export interface RecorderBatchMessage {
+  // Interleaved 16-bit frames, ready to be appended to a WAV data chunk
+  frames: Int16Array;
+  // Answer to a 'flush' request: nothing more follows
+  final?: boolean;
+}
+
+// Serialised with toString() and loaded from a Blob URL, so it must not
+// reference anything outside its own body.
+function recorderProcessorModule(processorName: string) {
+  class RecorderProcessor extends AudioWorkletProcessor {
+    channelCount: number;
+    batch: Int16Array;
+    fill = 0;
+
+    constructor(options?: { processorOptions?: { channelCount?: number; batchMs?: number } }) {
+      super();
+      this.channelCount = options?.processorOptions?.channelCount ?? 1;
+      // Converting to Int16 here halves what crosses the port and what is held in memory
+      const batchMs = options?.processorOptions?.batchMs ?? 250;
+      this.batch = new Int16Array(Math.round(sampleRate * batchMs / 1000) * this.channelCount);
+      this.port.onmessage = (e: MessageEvent) => {
+        if (e.data?.type === 'flush') this.flush();
+      };
+    }
+
+    flush() {
+      const frames = this.batch.slice(0, this.fill);
+      this.fill = 0;
+      this.port.postMessage({ frames, final: true }, [frames.buffer]);
+    }
+
+    process(inputs: Float32Array[][]) {
+      const channels = inputs[0];
+      if (!channels || channels.length === 0) return true;
+
+      const length = channels[0].length;
+      for (let i = 0; i < length; i++) {
+        for (let c = 0; c < this.channelCount; c++) {
+          // A missing channel (input not connected yet) records as silence
+          const sample = Math.max(-1, Math.min(1, channels[c]?.[i] ?? 0));
+          this.batch[this.fill++] = sample < 0 ? sample * 0x8000 : sample * 0x7fff;
+        }
+        if (this.fill === this.batch.length) {
+          const frames = this.batch;
+          this.batch = new Int16Array(frames.length);
+          this.fill = 0;
+          this.port.postMessage({ frames }, [frames.buffer]);
+        }
+      }
+      return true;
+    }
+  }
+
+  registerProcessor(processorName, RecorderProcessor);
+}
+
+export const RECORDER_PROCESSOR_SOURCE = `(${recorderProcessorModule.toString()})(${JSON.stringify(RECORDER_PROCESSOR_NAME)});`;
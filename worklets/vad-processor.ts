@@ -0,0 +1,221 @@
+import { VadConfig } from '../types';
+
+// AudioWorkletGlobalScope members; only defined inside the worklet at runtime
+declare const AudioWorkletProcessor: { new (): { port: MessagePort } };
+declare const registerProcessor: (name: string, ctor: unknown) => void;
+declare const sampleRate: number;
+
+export const VAD_PROCESSOR_NAME = 'eburon-vad';
+
+export interface VadSegmentMessage {
+  type: 'segment';
+  samples: Float32Array;
+  sampleRate: number;
+  // Seconds since the processor started
+  start: number;
+  end: number;
+  // True when cut at maxSegmentMs rather than at a pause
+  forced: boolean;
+}
+
+export interface VadStateMessage {
+  type: 'state';
+  speaking: boolean;
+}
+
+export type VadMessage = VadSegmentMessage | VadStateMessage;
+
+// Serialised with toString() and loaded from a Blob URL, so it must not
+// reference anything outside its own body.
+function vadProcessorModule(processorName: string) {
+  // In-place iterative radix-2 FFT; size must be a power of two
+  const fft = (re: Float32Array, im: Float32Array) => {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+      let bit = n >> 1;
+      for (; j & bit; bit >>= 1) j ^= bit;
+      j ^= bit;
+      if (i < j) {
+        [re[i], re[j]] = [re[j], re[i]];
+        [im[i], im[j]] = [im[j], im[i]];
+      }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+      const angle = -2 * Math.PI / len;
+      const wRe = Math.cos(angle);
+      const wIm = Math.sin(angle);
+      for (let i = 0; i < n; i += len) {
+        let curRe = 1, curIm = 0;
+        for (let k = 0; k < len / 2; k++) {
+          const a = i + k, b = a + len / 2;
+          const tRe = re[b] * curRe - im[b] * curIm;
+          const tIm = re[b] * curIm + im[b] * curRe;
+          re[b] = re[a] - tRe; im[b] = im[a] - tIm;
+          re[a] += tRe; im[a] += tIm;
+          const next = curRe * wRe - curIm * wIm;
+          curIm = curRe * wIm + curIm * wRe;
+          curRe = next;
+        }
+      }
+    }
+  };
+
+  class VadProcessor extends AudioWorkletProcessor {
+    config: VadConfig;
+    frameSize: number;
+    frame: Float32Array;
+    frameFill = 0;
+    window: Float32Array;
+    re: Float32Array;
+    im: Float32Array;
+
+    noiseFloorDb = -60;
+    speaking = false;
+    onsetFrames = 0;
+    silentFrames = 0;
+    // Frames are kept whole; a segment is the concatenation of its frames
+    preRoll: Float32Array[] = [];
+    segment: Float32Array[] = [];
+    segmentStart = 0;
+    framesSeen = 0;
+
+    constructor(options?: { processorOptions?: { config: VadConfig } }) {
+      super();
+      this.config = options?.processorOptions?.config as VadConfig;
+      // ~20ms analysis frames, rounded to a power of two for the FFT
+      this.frameSize = 2 ** Math.round(Math.log2(sampleRate * 0.02));
+      this.frame = new Float32Array(this.frameSize);
+      this.re = new Float32Array(this.frameSize);
+      this.im = new Float32Array(this.frameSize);
+      this.window = new Float32Array(this.frameSize);
+      for (let i = 0; i < this.frameSize; i++) {
+        this.window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / (this.frameSize - 1));
+      }
+      this.port.onmessage = (e: MessageEvent) => {
+        if (e.data?.type === 'config') this.config = e.data.config;
+        if (e.data?.type === 'flush' && this.speaking) this.closeSegment(false);
+      };
+    }
+
+    framesFor(ms: number) {
+      return Math.max(1, Math.round(ms / 1000 * sampleRate / this.frameSize));
+    }
+
+    process(inputs: Float32Array[][]) {
+      const channels = inputs[0];
+      if (!channels || channels.length === 0) return true;
+
+      const length = channels[0].length;
+      for (let i = 0; i < length; i++) {
+        let sum = 0;
+        for (let c = 0; c < channels.length; c++) sum += channels[c][i];
+        this.frame[this.frameFill++] = sum / channels.length;
+        if (this.frameFill === this.frameSize) {
+          this.analyse(this.frame.slice());
+          this.frameFill = 0;
+        }
+      }
+      return true;
+    }
+
+    isSpeechFrame(frame: Float32Array) {
+      let energy = 0;
+      for (let i = 0; i < frame.length; i++) {
+        energy += frame[i] * frame[i];
+        this.re[i] = frame[i] * this.window[i];
+        this.im[i] = 0;
+      }
+      const energyDb = 10 * Math.log10(energy / frame.length + 1e-10);
+
+      fft(this.re, this.im);
+      // Flatness = geometric mean / arithmetic mean of the power spectrum
+      let logSum = 0, linSum = 0;
+      const bins = this.frameSize / 2;
+      for (let k = 1; k <= bins; k++) {
+        const power = this.re[k] * this.re[k] + this.im[k] * this.im[k] + 1e-12;
+        logSum += Math.log(power);
+        linSum += power;
+      }
+      const flatness = Math.exp(logSum / bins) / (linSum / bins);
+
+      const { energyThresholdDb, flatnessThreshold } = this.config;
+      const loud = energyDb > this.noiseFloorDb + energyThresholdDb;
+      // Very loud frames pass even when noisy (e.g. sibilants, shouted speech)
+      const speech = loud && (flatness < flatnessThreshold || energyDb > this.noiseFloorDb + energyThresholdDb * 2);
+
+      // Floor drops immediately and creeps up slowly, so steady background noise is learned
+      if (energyDb < this.noiseFloorDb) {
+        this.noiseFloorDb = energyDb;
+      } else if (!speech) {
+        this.noiseFloorDb += (energyDb - this.noiseFloorDb) * 0.05;
+      } else {
+        this.noiseFloorDb += 0.01;
+      }
+      this.noiseFloorDb = Math.max(this.noiseFloorDb, -90);
+      return speech;
+    }
+
+    analyse(frame: Float32Array) {
+      const frameIndex = this.framesSeen++;
+      const speech = this.isSpeechFrame(frame);
+
+      if (!this.speaking) {
+        this.preRoll.push(frame);
+        if (this.preRoll.length > this.framesFor(this.config.preRollMs)) this.preRoll.shift();
+
+        this.onsetFrames = speech ? this.onsetFrames + 1 : 0;
+        // Two consecutive frames keep single clicks from opening a segment
+        if (this.onsetFrames >= 2) {
+          this.speaking = true;
+          this.silentFrames = 0;
+          this.segment = this.preRoll;
+          this.segmentStart = frameIndex + 1 - this.preRoll.length;
+          this.preRoll = [];
+          this.port.postMessage({ type: 'state', speaking: true });
+        }
+        return;
+      }
+
+      this.segment.push(frame);
+      this.silentFrames = speech ? 0 : this.silentFrames + 1;
+
+      if (this.silentFrames >= this.framesFor(this.config.hangoverMs)) {
+        // Drop the trailing hangover so the segment ends where speech did
+        this.segment.splice(this.segment.length - this.silentFrames + 1);
+        this.closeSegment(false);
+      } else if (this.segment.length >= this.framesFor(this.config.maxSegmentMs)) {
+        this.closeSegment(true);
+      }
+    }
+
+    closeSegment(forced: boolean) {
+      const frames = this.segment;
+      const start = this.segmentStart;
+      this.segment = [];
+      this.segmentStart = start + frames.length;
+
+      if (!forced) {
+        this.speaking = false;
+        this.onsetFrames = 0;
+        this.port.postMessage({ type: 'state', speaking: false });
+      }
+      // Too short to be an utterance; silence never reaches here at all
+      if (frames.length < this.framesFor(this.config.minSegmentMs)) return;
+
+      const samples = new Float32Array(frames.length * this.frameSize);
+      frames.forEach((f, i) => samples.set(f, i * this.frameSize));
+      this.port.postMessage({
+        type: 'segment',
+        samples,
+        sampleRate,
+        start: start * this.frameSize / sampleRate,
+        end: (start + frames.length) * this.frameSize / sampleRate,
+        forced,
+      }, [samples.buffer]);
+    }
+  }
+
+  registerProcessor(processorName, VadProcessor);
+}
+
+export const VAD_PROCESSOR_SOURCE = `(${vadProcessorModule.toString()})(${JSON.stringify(VAD_PROCESSOR_NAME)});`;